@@ -1,4 +0,0 @@
-/**
- * @license
- * SPDX-License-Identifier: Apache-2.0
-*/
@@ -1,5 +1,7 @@
 // This file is a template. The Docker entrypoint script will replace
-// the placeholder ${API_KEY} with the actual API key from the environment variable.
+// the placeholders ${API_KEY} and ${IMAGE_PROVIDER} with the values of the matching
+// environment variables.
 window.injectedEnv = {
-  API_KEY: '${API_KEY}'
+  API_KEY: '${API_KEY}',
+  IMAGE_PROVIDER: '${IMAGE_PROVIDER}'
 };
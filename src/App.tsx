@@ -4,46 +4,96 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateCompositedImage, generateFramedImage } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useSyncExternalStore } from 'react';
+import ReactCrop, { type PercentCrop } from 'react-image-crop';
+import { describeReplacement, generateEditedImage, generateFilteredImage, generateAdjustedImage, generateCompositedImage, generateFramedImage, generateExpandedImage, generateReplacedImage, generatePlacedProductImage } from './services/geminiService';
 import Header from './components/Header';
+import DebugModal from './components/DebugModal';
+import PromptTemplateModal from './components/PromptTemplateModal';
 import Spinner from './components/Spinner';
 import CreativePanel from './components/CreativePanel';
 import AdjustmentPanel from './components/AdjustmentPanel';
 import CropPanel from './components/CropPanel';
+import CropGuides, { type CropGuide } from './components/CropGuides';
 import FramePanel from './components/FramePanel';
+import ExpandPanel from './components/ExpandPanel';
 import BatchPanel from './components/BatchPanel';
-import { UndoIcon, RedoIcon, EyeIcon, CompositeIcon, BatchIcon, CheckIcon, DownloadIcon } from './components/icons';
+import RecipePanel from './components/RecipePanel';
+import { UndoIcon, RedoIcon, EyeIcon, CompositeIcon, BatchIcon, CheckIcon, DownloadIcon, InfoIcon } from './components/icons';
+import StepDetails, { toolLabels } from './components/StepDetails';
+import CompareView, { type CompareMode } from './components/CompareView';
+import ComparePanel from './components/ComparePanel';
+import DriftReport from './components/DriftReport';
+import { buildEditRegion, measureDrift, renderDriftOverlay, restoreUntouchedAreas } from './utils/driftDetector';
+import ErrorPanel from './components/ErrorPanel';
+import { isCancellation, throwIfCancelled } from './services/errors';
 import StartScreen from './components/StartScreen';
 import Toolbar, { type Tool } from './components/Toolbar';
+import RetouchPanel, { type RetouchMode } from './components/RetouchPanel';
+import ReplacePanel, { type ReplaceAnchorMode } from './components/ReplacePanel';
+import PlacePanel, { type PlaceAnchorMode } from './components/PlacePanel';
+import MaskCanvas from './components/MaskCanvas';
+import TonePreview from './components/TonePreview';
+import HistogramPanel from './components/HistogramPanel';
+import OutputSettingsPanel from './components/OutputSettingsPanel';
+import EditorCanvas from './components/EditorCanvas';
+import HotspotMarker from './components/HotspotMarker';
+import VariantGrid from './components/VariantGrid';
+import DiscardedTray from './components/DiscardedTray';
+import { cropImageFile, dataURLtoFile, exportMaskFile } from './utils/imageUtils';
+import { DEFAULT_TONE_ADJUSTMENTS, applyToneToFile, describeToneAdjustments, isNeutralTone } from './utils/toneAdjust';
+import { readHistogram, type Histogram } from './utils/histogram';
+import { describeExpansion } from './utils/canvasExpand';
+import { exportImageFile } from './utils/imageExport';
+import { getOutputPolicy, setOutputPolicy, type OutputPolicy } from './services/outputPolicy';
+import { MAX_STRAIGHTEN_ANGLE, NEUTRAL_TRANSFORM, estimateStraightenAngle, isNeutralTransform, previewTransformStyle } from './utils/imageTransform';
+import { createProductId, deleteProduct, listProducts, saveProduct, type Product } from './services/productCatalog';
+import { createSessionId, deleteSession, duplicateSession, listSessions, loadSession, renameSession, saveSession, type Session } from './services/sessionStore';
+import { isDatabaseBlocked, subscribeToDatabaseBlocked } from './services/db';
+import type { CanvasExpansion, DraftHotspot, EditMetadata, EditOperation, HistoryEntry, Hotspot, ImageTransform, RegionAnchor, ToneAdjustments } from './types';
+import { parseRecipe, recipeFromHistory, runRecipe, serializeRecipe, type Recipe } from './services/recipeService';
+import { createBatchJob, getBatchItemOutput, processBatchItem, resetFailedItems, updateBatchItem, type BatchItem, type BatchJob } from './services/batchJob';
+import { startBatchQueue, type BatchQueueController } from './services/batchQueue';
+import { describeOperation } from './services/operations';
+import { MAX_VARIANTS, discardVariants, generateVariants, type DiscardedVariant, type VariantSet } from './services/variants';
+import { buildZipManifest, createEditMetadata, withGenerationStats, type ZipEntry } from './utils/editMetadata';
+import { addHistoryNode, addHistoryNodeAt, createLinearTree, emptyHistoryTree, getBranch, getCurrentNode, getRootNode, getSiblings, redoHistory, selectHistoryNode, undoHistory, type HistoryTree } from './utils/historyTree';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
+// Position of a history step among its siblings, shown where the history branches.
+interface BranchSwitcher {
+    index: number;
+    count: number;
+    onSelect: (index: number) => void;
 }
 
 // Helper component for gallery thumbnails
-const ImageThumbnail: React.FC<{ file: File; isSelected: boolean; onClick: () => void; isSelectedForDownload: boolean; onSelectToggle: () => void; }> = ({ file, isSelected, onClick, isSelectedForDownload, onSelectToggle }) => {
+const ImageThumbnail: React.FC<{ file: File; parentFile?: File; meta: EditMetadata; isSelected: boolean; onClick: () => void; isSelectedForDownload: boolean; onSelectToggle: () => void; branch?: BranchSwitcher; }> = ({ file, parentFile, meta, isSelected, onClick, isSelectedForDownload, onSelectToggle, branch }) => {
     const [url, setUrl] = useState<string | null>(null);
+    // Viewport position of the details popover; fixed positioning escapes the scrolling strip.
+    const [detailsAnchor, setDetailsAnchor] = useState<{ left: number; bottom: number } | null>(null);
     useEffect(() => {
         const objectUrl = URL.createObjectURL(file);
         setUrl(objectUrl);
         return () => URL.revokeObjectURL(objectUrl);
     }, [file]);
 
+    useEffect(() => {
+        if (!detailsAnchor) return;
+        const close = () => setDetailsAnchor(null);
+        window.addEventListener('scroll', close, true);
+        window.addEventListener('resize', close);
+        return () => {
+            window.removeEventListener('scroll', close, true);
+            window.removeEventListener('resize', close);
+        };
+    }, [detailsAnchor]);
+
+    const handleToggleDetails = (e: React.MouseEvent<HTMLButtonElement>) => {
+        if (detailsAnchor) { setDetailsAnchor(null); return; }
+        const rect = e.currentTarget.getBoundingClientRect();
+        setDetailsAnchor({ left: rect.left, bottom: window.innerHeight - rect.top + 8 });
+    };
+
     return (
         <div className="relative flex-shrink-0 w-24 h-24">
             <button onClick={onClick} className={`w-full h-full rounded-md overflow-hidden transition-all duration-200 border-2 ${isSelected ? 'border-blue-500 scale-105 shadow-lg' : 'border-transparent hover:border-gray-500'}`}>
@@ -56,6 +106,27 @@ const ImageThumbnail: React.FC<{ file: File; isSelected: boolean; onClick: () =>
             >
                 {isSelectedForDownload && <CheckIcon className="w-4 h-4 text-white" />}
             </button>
+            <button
+                onClick={handleToggleDetails}
+                onBlur={() => setDetailsAnchor(null)}
+                className={`absolute top-1 left-1 w-6 h-6 rounded-full flex items-center justify-center transition-all duration-200 z-10 text-white ${detailsAnchor ? 'bg-blue-500' : 'bg-black/50 hover:bg-black/70'}`}
+                aria-label="Show step details"
+                aria-expanded={!!detailsAnchor}
+            >
+                <InfoIcon className="w-4 h-4" />
+            </button>
+            {detailsAnchor && (
+                <div className="fixed z-50 w-72 p-3 rounded-lg shadow-xl bg-white dark:bg-gray-800 border border-slate-200 dark:border-gray-700 animate-fade-in" style={{ left: detailsAnchor.left, bottom: detailsAnchor.bottom }} role="dialog">
+                    <StepDetails meta={meta} file={file} parentFile={parentFile} />
+                </div>
+            )}
+            {branch && (
+                <div className="absolute bottom-1 left-1 right-1 flex items-center justify-between bg-black/60 rounded text-white text-xs font-semibold z-10" title={`Branch ${branch.index + 1} of ${branch.count}`}>
+                    <button onClick={() => branch.onSelect((branch.index - 1 + branch.count) % branch.count)} className="px-1.5 py-0.5 hover:bg-white/20 rounded-l" aria-label="Previous branch">‹</button>
+                    <span>{branch.index + 1}/{branch.count}</span>
+                    <button onClick={() => branch.onSelect((branch.index + 1) % branch.count)} className="px-1.5 py-0.5 hover:bg-white/20 rounded-r" aria-label="Next branch">›</button>
+                </div>
+            )}
         </div>
     );
 };
@@ -91,34 +162,123 @@ const BatchThumbnail: React.FC<{ file: File; }> = ({ file }) => {
     );
 };
 
+const batchStatusStyles: Record<BatchItem['status'], string> = {
+    pending: 'bg-black/50 text-white',
+    running: 'bg-blue-500 text-white animate-pulse',
+    done: 'bg-green-500 text-white',
+    failed: 'bg-red-500 text-white',
+    blocked: 'bg-orange-500 text-white',
+};
+
+// A batch image with its own result: the output once done, the source until then.
+const BatchItemThumbnail: React.FC<{ item: BatchItem; onOpen: () => void; }> = ({ item, onOpen }) => {
+    const output = getBatchItemOutput(item);
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="relative">
+                <BatchThumbnail file={output?.file ?? item.source} />
+                <span className={`absolute top-2 left-2 px-2 py-0.5 rounded text-xs font-semibold capitalize ${batchStatusStyles[item.status]}`}>{item.status}</span>
+                {output && (
+                    <button onClick={onOpen} className="absolute bottom-2 right-2 px-2 py-1 rounded bg-black/60 hover:bg-black/80 text-white text-xs font-semibold transition-colors">Open in Editor</button>
+                )}
+            </div>
+            <p className="text-xs text-slate-500 dark:text-gray-400 truncate" title={item.error ?? item.source.name}>{item.error ?? item.source.name}</p>
+        </div>
+    );
+};
+
+// Tools whose edits can be generated as several variants to pick from.
+const variantTools: Tool[] = ['retouch', 'replace', 'place', 'creative', 'adjust', 'expand', 'frame'];
 
 const App: React.FC = () => {
   type Theme = 'light' | 'dark';
   const [theme, setTheme] = useState<Theme>('dark');
+  const [isDebugOpen, setIsDebugOpen] = useState<boolean>(false);
+  // Saving waits, rather than fails, while an older tab holds the database.
+  const isDbBlocked = useSyncExternalStore(subscribeToDatabaseBlocked, isDatabaseBlocked);
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState<boolean>(false);
   
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [historyTree, setHistoryTree] = useState<HistoryTree>(emptyHistoryTree);
   const [prompt, setPrompt] = useState<string>('');
   const [secondaryPrompt, setSecondaryPrompt] = useState<string>(''); // For replace tool
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [editHotspots, setEditHotspots] = useState<{ x: number, y: number }[]>([]);
-  const [displayHotspots, setDisplayHotspots] = useState<{ x: number, y: number }[]>([]);
+  // The error panel's message, plus the failed call's exception and a retry when it came from a model call.
+  const [errorState, setErrorState] = useState<{ message: string; cause?: unknown; retry?: () => void } | null>(null);
+  const setError = useCallback((message: string | null) => setErrorState(message === null ? null : { message }), []);
+  const reportGenerationError = useCallback((err: unknown, fallback: string, retry: () => void) => {
+    // A cancelled request leaves the editor as it was, so there is nothing to report.
+    if (isCancellation(err)) return;
+    setErrorState({ message: err instanceof Error ? err.message : fallback, cause: err, retry });
+  }, []);
+
+  // The model request in flight, which the loading overlay can cancel.
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(null);
+  const beginRequest = useCallback((): AbortSignal => {
+    const controller = new AbortController();
+    setActiveRequest(controller);
+    return controller.signal;
+  }, []);
+  const [editHotspots, setEditHotspots] = useState<DraftHotspot[]>([]);
+  const [selectedHotspot, setSelectedHotspot] = useState<string | null>(null);
   const [activeTool, setActiveTool] = useState<Tool>('retouch');
+
+  const [retouchMode, setRetouchMode] = useState<RetouchMode>('points');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [brushFeather, setBrushFeather] = useState<number>(8);
+  const [isErasing, setIsErasing] = useState<boolean>(false);
+  const [editRadius, setEditRadius] = useState<number>(0.15);
+  const [restoreUntouched, setRestoreUntouched] = useState<boolean>(false);
+  const [showDriftOverlay, setShowDriftOverlay] = useState<boolean>(false);
+  const [driftOverlayUrl, setDriftOverlayUrl] = useState<string | null>(null);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
   
-  const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  // Crop selections are kept in percent so they stay put at any zoom level.
+  const [crop, setCrop] = useState<PercentCrop>();
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
+  // Mirroring and straightening waiting to be applied with the crop, and the composition guide shown in the selection.
+  const [cropTransform, setCropTransform] = useState<ImageTransform>(NEUTRAL_TRANSFORM);
+  const [cropGuide, setCropGuide] = useState<CropGuide>('thirds');
+  const [outputPolicy, setOutputPolicyState] = useState<OutputPolicy>(getOutputPolicy);
+  // Where the Replace and Place Product tools aim, shared so switching between them keeps the spot.
+  const [replaceAnchorMode, setReplaceAnchorMode] = useState<ReplaceAnchorMode>('none');
+  const [placeAnchorMode, setPlaceAnchorMode] = useState<PlaceAnchorMode>('box');
+  const [anchorPoint, setAnchorPoint] = useState<{ x: number, y: number } | null>(null);
+  const [anchorBox, setAnchorBox] = useState<PercentCrop>();
+  const [replaceReference, setReplaceReference] = useState<File | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+  const [placeInstructions, setPlaceInstructions] = useState<string>('');
+  const [toneAdjustments, setToneAdjustments] = useState<ToneAdjustments>(DEFAULT_TONE_ADJUSTMENTS);
+  const [currentHistogram, setCurrentHistogram] = useState<Histogram | null>(null);
   const [isComparing, setIsComparing] = useState<boolean>(false);
-  const imgRef = useRef<HTMLImageElement>(null);
 
   const [compositeFiles, setCompositeFiles] = useState<File[]>([]);
   const [styleSourceIndex, setStyleSourceIndex] = useState<number>(0);
   
   const [batchFiles, setBatchFiles] = useState<File[]>([]);
-  const [pinnedFrameStyle, setPinnedFrameStyle] = useState<{ style: string; topText: string; bottomText: string; } | null>(null);
+  const [pinnedOperation, setPinnedOperation] = useState<EditOperation | null>(null);
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [batchJob, setBatchJob] = useState<BatchJob | null>(null);
+  const [batchRunState, setBatchRunState] = useState<'idle' | 'running' | 'paused'>('idle');
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(2);
+  const batchQueueRef = useRef<BatchQueueController | null>(null);
+
+  const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
 
-  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+  // How many variants each generative edit asks for, the set waiting to be picked from, and the ones passed over.
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variantSet, setVariantSet] = useState<VariantSet | null>(null);
+  const [discardedVariants, setDiscardedVariants] = useState<DiscardedVariant[]>([]);
+
+  const [compareMode, setCompareMode] = useState<CompareMode>('slider');
+  const [compareBeforeId, setCompareBeforeId] = useState<string | null>(null);
+  const [compareAfterId, setCompareAfterId] = useState<string | null>(null);
+
+  const [activeSession, setActiveSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
 
   // Theme management
   useEffect(() => {
@@ -137,8 +297,48 @@ const App: React.FC = () => {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  const branch = getBranch(historyTree);
+  const currentNode = getCurrentNode(historyTree);
+  const currentImage = currentNode?.file ?? null;
+  const originalImage = getRootNode(historyTree)?.file ?? null;
+  const hasHistory = historyTree.rootId !== null;
+  const historyNodes = Object.values(historyTree.nodes);
+  const historyNodeCount = historyNodes.length;
+  const branchCount = historyNodeCount - new Set(historyNodes.map(node => node.parentId).filter(Boolean)).size;
+  // Steps from the original up to the image on screen; this is what a saved recipe replays.
+  const currentPath = branch.slice(0, branch.findIndex(node => node.id === historyTree.currentId) + 1);
+  const recipePreview = recipeFromHistory(currentPath, '');
+
+  // The Compare tool can show any two history entries, numbered in the order they were made.
+  // Until the user picks, it compares the current image with the step before it.
+  const compareOptions = [...historyNodes].sort((a, b) => a.createdAt - b.createdAt).map((node, index) => ({
+    id: node.id,
+    label: `#${index + 1} ${toolLabels[node.meta.tool]}${node.meta.prompt ? `: ${node.meta.prompt.length > 30 ? `${node.meta.prompt.slice(0, 30)}…` : node.meta.prompt}` : ''}`,
+  }));
+  const compareAfter = (compareAfterId && historyTree.nodes[compareAfterId]) || currentNode;
+  const compareBefore = (compareBeforeId && historyTree.nodes[compareBeforeId]) || (currentNode?.parentId ? historyTree.nodes[currentNode.parentId] : null) || getRootNode(historyTree);
+  const compareLabel = (id: string) => `#${compareOptions.findIndex(option => option.id === id) + 1}`;
+
+  // The drift overlay is rebuilt from the step's input, output and edit area whenever it is shown.
+  const driftParent = currentNode?.meta.drift && currentNode.parentId ? historyTree.nodes[currentNode.parentId] : null;
+  useEffect(() => {
+    if (!showDriftOverlay || !currentNode?.meta.drift || !driftParent) { setDriftOverlayUrl(null); return; }
+    let url: string | null = null;
+    let cancelled = false;
+    const area = { hotspots: currentNode.meta.hotspots ?? [], mask: currentNode.mask };
+    buildEditRegion(driftParent.file, area, currentNode.meta.drift.radius)
+      .then(region => renderDriftOverlay(driftParent.file, currentNode.file, region))
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setDriftOverlayUrl(url);
+      })
+      .catch(err => console.error('Failed to draw the drift overlay.', err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [showDriftOverlay, currentNode, driftParent]);
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
@@ -164,31 +364,105 @@ const App: React.FC = () => {
   }, [originalImage]);
 
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  const clearMask = useCallback(() => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  }, []);
+
+  // A painted mask only makes sense for the image it was painted on.
+  useEffect(() => {
+    clearMask();
+  }, [currentImage, clearMask]);
+
+  // The same goes for a point or box anchor, and for unapplied local adjustments and crop transforms.
+  useEffect(() => {
+    setAnchorPoint(null);
+    setAnchorBox(undefined);
+    setToneAdjustments(DEFAULT_TONE_ADJUSTMENTS);
+    setCropTransform(NEUTRAL_TRANSFORM);
+  }, [currentImage]);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  useEffect(() => {
+    let cancelled = false;
+    setCurrentHistogram(null);
+    if (!currentImage) return;
+    readHistogram(currentImage)
+      .then(histogram => { if (!cancelled) setCurrentHistogram(histogram); })
+      .catch(err => console.error('Failed to read the histogram.', err));
+    return () => { cancelled = true; };
+  }, [currentImage]);
+
+  const anchorMode = activeTool === 'replace' ? replaceAnchorMode : activeTool === 'place' ? placeAnchorMode : 'none';
+  // The box is kept as percentages so it survives zooming; the model needs pixels.
+  const currentAnchor = ((): RegionAnchor | null => {
+    if (anchorMode === 'point') return anchorPoint && { type: 'point', ...anchorPoint };
+    if (anchorMode !== 'box' || !imageSize || !anchorBox?.width || !anchorBox.height) return null;
+    const toPixels = (percent: number, size: number) => Math.round((percent / 100) * size);
+    return { type: 'box', x: toPixels(anchorBox.x, imageSize.width), y: toPixels(anchorBox.y, imageSize.height), width: toPixels(anchorBox.width, imageSize.width), height: toPixels(anchorBox.height, imageSize.height) };
+  })();
+  const clearAnchor = () => { setAnchorPoint(null); setAnchorBox(undefined); };
+
+  const canUndo = !!currentNode?.parentId;
+  const canRedo = !!(historyTree.currentId && historyTree.activeChild[historyTree.currentId]);
+
+  const addImageToHistory = useCallback((newImageFile: File, meta: EditMetadata) => {
+    // Editing from an earlier step adds a sibling branch rather than discarding later steps.
+    setHistoryTree(tree => addHistoryNode(tree, { file: newImageFile, meta }));
     setCrop(undefined);
     setCompletedCrop(undefined);
-  }, [history, historyIndex]);
+  }, []);
+
+  // Sessions are saved to IndexedDB shortly after every change, so a reload never loses work.
+  const persistSession = useCallback(async () => {
+    if (!activeSession || !historyTree.rootId) return;
+    await saveSession({
+      ...activeSession,
+      updatedAt: Date.now(),
+      history: historyTree,
+      pinnedOperation,
+      selectedNodeIds: Array.from(selectedNodeIds),
+      discardedVariants,
+    });
+  }, [activeSession, historyTree, pinnedOperation, selectedNodeIds, discardedVariants]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      persistSession().catch(err => console.error('Failed to save the session.', err));
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [persistSession]);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.error('Failed to load saved sessions.', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasHistory) refreshSessions();
+  }, [hasHistory, refreshSessions]);
+
+  const startNewSession = (name: string) => {
+    setActiveSession({ id: createSessionId(), name, createdAt: Date.now() });
+  };
 
   const handleStartEditing = useCallback((file: File) => {
     setError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
+    setHistoryTree(createLinearTree([{ file, meta: createEditMetadata('upload', '') }]));
+    startNewSession(file.name);
     setCompositeFiles([]);
     setStyleSourceIndex(0);
     setBatchFiles([]);
     setEditHotspots([]);
-    setDisplayHotspots([]);
     setActiveTool('retouch');
     setCrop(undefined);
     setCompletedCrop(undefined);
-    setSelectedIndices(new Set());
+    setSelectedNodeIds(new Set());
+    setVariantSet(null);
+    setDiscardedVariants([]);
   }, []);
   
   const handleCompositeFilesSelect = (files: FileList | null) => {
@@ -205,197 +479,493 @@ const App: React.FC = () => {
     if (files && files.length > 0) {
         setError(null);
         setBatchFiles(Array.from(files));
-        setHistory([]);
-        setHistoryIndex(-1);
+        setBatchJob(null);
     } else {
         setError("Please select one or more images for batch processing.");
     }
   };
 
+  // Runs a generative edit once per requested variant. A single result goes straight
+  // into history; several are shown side by side so the user can pick.
+  // `finish` can post-process each result before it is shown.
+  const generateIntoHistory = useCallback(async (generate: () => Promise<string>, fileLabel: string, buildMeta: (stats: { model: string; durationMs: number }) => EditMetadata, signal: AbortSignal, finish?: (entry: HistoryEntry) => Promise<HistoryEntry>) => {
+    const count = variantCount;
+    const variants = await generateVariants(historyTree.currentId, count, async index => {
+        const { result, model, durationMs } = await withGenerationStats(generate);
+        const meta = buildMeta({ model, durationMs });
+        const entry = count > 1
+            ? { file: dataURLtoFile(result, `${fileLabel}-${Date.now()}-${index + 1}.png`), meta: { ...meta, variant: { index, count } } }
+            : { file: dataURLtoFile(result, `${fileLabel}-${Date.now()}.png`), meta };
+        return finish ? finish(entry) : entry;
+    });
+    // Resizing, compositing and the drift check run after the model answers, so Cancel may have come in meanwhile.
+    throwIfCancelled(signal);
+    if (count === 1) {
+        const [{ id, ...entry }] = variants.entries;
+        setHistoryTree(tree => addHistoryNode(tree, entry));
+        setCrop(undefined);
+        setCompletedCrop(undefined);
+        return;
+    }
+    // Variants still waiting from an earlier request are not lost, just discarded.
+    if (variantSet) setDiscardedVariants(discarded => [...discardVariants(variantSet, new Set()), ...discarded]);
+    setVariantSet(variants);
+  }, [variantCount, historyTree.currentId, variantSet]);
+
+  const handleKeepVariants = useCallback((chosenIds: Set<string>) => {
+    if (!variantSet) return;
+    const kept = variantSet.entries.filter(entry => chosenIds.has(entry.id));
+    // Kept variants become siblings under the image they were generated from.
+    setHistoryTree(tree => kept.reduce((next, { id, ...entry }) => addHistoryNodeAt(next, entry, variantSet.parentId), tree));
+    setDiscardedVariants(discarded => [...discardVariants(variantSet, chosenIds), ...discarded]);
+    setVariantSet(null);
+  }, [variantSet]);
+
+  const handleRestoreVariant = useCallback((id: string) => {
+    const variant = discardedVariants.find(candidate => candidate.id === id);
+    if (!variant) return;
+    const { parentId } = variant;
+    setHistoryTree(tree => addHistoryNodeAt(tree, { file: variant.file, meta: variant.meta, mask: variant.mask }, parentId && tree.nodes[parentId] ? parentId : tree.currentId));
+    setDiscardedVariants(discarded => discarded.filter(candidate => candidate.id !== id));
+  }, [discardedVariants]);
+
   const handleGenerate = useCallback(async () => {
     if (!currentImage) return;
-    if (!prompt.trim()) { setError('Please enter a description for your edit.'); return; }
-    if (editHotspots.length === 0) { setError('Please click on the image to select an area to edit.'); return; }
+    const useMask = retouchMode === 'brush';
+    if (!useMask && editHotspots.length === 0) { setError('Please click on the image to select an area to edit.'); return; }
+    // Points with their own instruction don't need the general description.
+    const needsPrompt = useMask || editHotspots.some(hotspot => !hotspot.instruction?.trim());
+    if (needsPrompt && !prompt.trim()) { setError('Please enter a description for your edit.'); return; }
+    if (useMask && (!hasMask || !maskCanvasRef.current)) { setError('Please paint over the area of the image you want to edit.'); return; }
     setIsLoading(true);
     setError(null);
+    const signal = beginRequest();
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspots);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const mask = useMask && maskCanvasRef.current ? await exportMaskFile(maskCanvasRef.current, brushFeather) : null;
+        const hotspots = useMask ? [] : editHotspots.map(({ x, y, instruction }) => instruction?.trim() ? { x, y, instruction: instruction.trim() } : { x, y });
+        const description = prompt.trim() || hotspots.map(hotspot => hotspot.instruction).join('; ');
+        const area = { hotspots, mask: mask ?? undefined };
+        // Built once and shared by every variant's checks.
+        const region = await buildEditRegion(currentImage, area, editRadius);
+        // Measure what the model changed outside the edit before optionally undoing it.
+        const checkDrift = async (entry: HistoryEntry): Promise<HistoryEntry> => {
+            const score = await measureDrift(currentImage, entry.file, region);
+            const file = restoreUntouched ? await restoreUntouchedAreas(currentImage, entry.file, region) : entry.file;
+            return { file, mask: area.mask, meta: { ...entry.meta, drift: { score, radius: editRadius, restored: restoreUntouched } } };
+        };
+        await generateIntoHistory(() => generateEditedImage(currentImage, prompt, hotspots, mask, signal), 'edited', stats => createEditMetadata('retouch', description, { hotspots, usedMask: useMask, ...stats }), signal, checkDrift);
         setEditHotspots([]);
-        setDisplayHotspots([]);
         setPrompt(''); // Clear prompt for iterative editing
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        reportGenerationError(err, 'An unknown error occurred.', handleGenerate);
     } finally {
         setIsLoading(false);
+        setActiveRequest(null);
     }
-  }, [currentImage, prompt, editHotspots, addImageToHistory]);
+  }, [currentImage, prompt, editHotspots, retouchMode, hasMask, brushFeather, editRadius, restoreUntouched, generateIntoHistory, beginRequest, reportGenerationError]);
 
   const handleGenerateComposite = useCallback(async () => {
     if (compositeFiles.length < 2) return;
     setIsLoading(true);
     setError(null);
+    const signal = beginRequest();
 
     const orderedFiles = [...compositeFiles];
     const styleSourceFile = orderedFiles.splice(styleSourceIndex, 1)[0];
     orderedFiles.unshift(styleSourceFile);
     
     try {
-        const compositedImageUrl = await generateCompositedImage(orderedFiles);
+        const { result: compositedImageUrl, model, durationMs } = await withGenerationStats(() => generateCompositedImage(orderedFiles, signal));
         const newImageFile = dataURLtoFile(compositedImageUrl, `composited-${Date.now()}.png`);
+        const meta = createEditMetadata('composite', `Composite of ${orderedFiles.length} images`, { model, durationMs });
         
-        setHistory([newImageFile]);
-        setHistoryIndex(0);
+        setHistoryTree(createLinearTree([{ file: newImageFile, meta }]));
+        startNewSession(`Composite ${new Date().toLocaleString()}`);
+        setVariantSet(null);
+        setDiscardedVariants([]);
         setCompositeFiles([]);
         setStyleSourceIndex(0);
         setActiveTool('retouch');
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred during compositing.');
+        reportGenerationError(err, 'An unknown error occurred during compositing.', handleGenerateComposite);
     } finally {
         setIsLoading(false);
+        setActiveRequest(null);
     }
-  }, [compositeFiles, styleSourceIndex]);
+  }, [compositeFiles, styleSourceIndex, beginRequest, reportGenerationError]);
   
   const handleApplyCreativeStyle = useCallback(async (stylePrompt: string) => {
     if (!currentImage) return;
     setIsLoading(true);
     setError(null);
+    const signal = beginRequest();
     try {
-        const styledImageUrl = await generateFilteredImage(currentImage, stylePrompt);
-        const newImageFile = dataURLtoFile(styledImageUrl, `styled-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        await generateIntoHistory(() => generateFilteredImage(currentImage, stylePrompt, signal), 'styled', stats => createEditMetadata('creative', stylePrompt, stats), signal);
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        reportGenerationError(err, 'An unknown error occurred.', () => handleApplyCreativeStyle(stylePrompt));
     } finally {
         setIsLoading(false);
+        setActiveRequest(null);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, generateIntoHistory, beginRequest, reportGenerationError]);
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (!currentImage) return;
     setIsLoading(true);
     setError(null);
+    const signal = beginRequest();
     try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        await generateIntoHistory(() => generateAdjustedImage(currentImage, adjustmentPrompt, signal), 'adjusted', stats => createEditMetadata('adjust', adjustmentPrompt, stats), signal);
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        reportGenerationError(err, 'An unknown error occurred.', () => handleApplyAdjustment(adjustmentPrompt));
     } finally {
         setIsLoading(false);
+        setActiveRequest(null);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, generateIntoHistory, beginRequest, reportGenerationError]);
   
   const handleReplaceObject = useCallback(async () => {
     if (!currentImage) return;
     if (!prompt.trim() || !secondaryPrompt.trim()) { setError('Please fill out both fields.'); return; }
+    const anchor = currentAnchor;
+    if (replaceAnchorMode === 'point' && !anchor) { setError('Please click the object you want to replace.'); return; }
+    if (replaceAnchorMode === 'box' && !anchor) { setError('Please drag a box around the object you want to replace.'); return; }
     setIsLoading(true);
     setError(null);
+    const signal = beginRequest();
     try {
-        const replacePrompt = `Replace the ${prompt} with a ${secondaryPrompt}.`;
-        const replacedImageUrl = await generateAdjustedImage(currentImage, replacePrompt);
-        const newImageFile = dataURLtoFile(replacedImageUrl, `replaced-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const replacePrompt = describeReplacement(prompt, secondaryPrompt);
+        const details = { replaced: { target: prompt, replacement: secondaryPrompt }, anchor: anchor ?? undefined, reference: replaceReference?.name };
+        await generateIntoHistory(() => generateReplacedImage(currentImage, prompt, secondaryPrompt, anchor, replaceReference, signal), 'replaced', stats => createEditMetadata('replace', replacePrompt, { ...details, ...stats }), signal);
         setPrompt('');
         setSecondaryPrompt('');
+        clearAnchor();
+    } catch (err) {
+        reportGenerationError(err, 'An unknown error occurred.', handleReplaceObject);
+    } finally {
+        setIsLoading(false);
+        setActiveRequest(null);
+    }
+  }, [currentImage, prompt, secondaryPrompt, replaceAnchorMode, currentAnchor, replaceReference, generateIntoHistory, beginRequest, reportGenerationError]);
+
+  const handlePlaceProduct = useCallback(async () => {
+    if (!currentImage) return;
+    const product = products.find(candidate => candidate.id === selectedProductId);
+    if (!product) { setError('Please choose a product from the catalog.'); return; }
+    const anchor = currentAnchor;
+    if (!anchor) { setError(placeAnchorMode === 'point' ? 'Please click where the product should go.' : 'Please drag a box where the product should go.'); return; }
+    setIsLoading(true);
+    setError(null);
+    const signal = beginRequest();
+    try {
+        const instructions = placeInstructions.trim();
+        const description = instructions ? `Place ${product.name}: ${instructions}` : `Place ${product.name}`;
+        await generateIntoHistory(() => generatePlacedProductImage(currentImage, product, anchor, instructions, signal), 'placed', stats => createEditMetadata('place', description, { product: product.name, anchor, ...stats }), signal);
+        setPlaceInstructions('');
+        clearAnchor();
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        reportGenerationError(err, 'An unknown error occurred.', handlePlaceProduct);
     } finally {
         setIsLoading(false);
+        setActiveRequest(null);
     }
-  }, [currentImage, prompt, secondaryPrompt, addImageToHistory]);
+  }, [currentImage, products, selectedProductId, currentAnchor, placeAnchorMode, placeInstructions, generateIntoHistory, beginRequest, reportGenerationError]);
+
+  const refreshProducts = useCallback(async () => {
+    try {
+      setProducts(await listProducts());
+    } catch (err) {
+      console.error('Failed to load the product catalog.', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProducts();
+  }, [refreshProducts]);
+
+  const handleSaveProduct = useCallback(async (details: { name: string; description: string; images: File[] }, id: string | null) => {
+    const existing = id ? products.find(product => product.id === id) : undefined;
+    const now = Date.now();
+    const product: Product = { id: existing?.id ?? createProductId(), createdAt: existing?.createdAt ?? now, updatedAt: now, ...details };
+    await saveProduct(product);
+    setSelectedProductId(product.id);
+    await refreshProducts();
+  }, [products, refreshProducts]);
+
+  const handleDeleteProduct = useCallback(async (id: string) => {
+    try {
+      await deleteProduct(id);
+      setSelectedProductId(selected => selected === id ? null : selected);
+      await refreshProducts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the product.');
+    }
+  }, [refreshProducts, setError]);
   
   const handleApplyFrame = useCallback(async ({ style, topText, bottomText }: { style: string; topText: string; bottomText: string; }) => {
     if (!currentImage) return;
     if (!style.trim()) { setError('Please describe the frame style.'); return; }
     setIsLoading(true);
     setError(null);
+    const signal = beginRequest();
     try {
-      const framedImageUrl = await generateFramedImage(currentImage, style, topText, bottomText);
-      const newImageFile = dataURLtoFile(framedImageUrl, `framed-${Date.now()}.png`);
-      addImageToHistory(newImageFile);
+      await generateIntoHistory(() => generateFramedImage(currentImage, style, topText, bottomText, signal), 'framed', stats => createEditMetadata('frame', style, { frame: { style, topText, bottomText }, ...stats }), signal);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred while adding the frame.');
+      reportGenerationError(err, 'An unknown error occurred while adding the frame.', () => handleApplyFrame({ style, topText, bottomText }));
     } finally {
       setIsLoading(false);
+      setActiveRequest(null);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, generateIntoHistory, beginRequest, reportGenerationError]);
   
-  const handleApplyFrameToBatch = useCallback(async () => {
-    if (!pinnedFrameStyle || batchFiles.length === 0) return;
+  const handleExpand = useCallback(async (expansion: CanvasExpansion) => {
+    if (!currentImage) return;
     setIsLoading(true);
     setError(null);
-    const results: File[] = [];
+    const signal = beginRequest();
     try {
-        for (const file of batchFiles) {
-            const { style, topText, bottomText } = pinnedFrameStyle;
-            const framedImageUrl = await generateFramedImage(file, style, topText, bottomText);
-            const newImageFile = dataURLtoFile(framedImageUrl, `framed-batch-${file.name}.png`);
-            results.push(newImageFile);
-        }
-        setHistory(results);
-        setHistoryIndex(results.length - 1); // Select the last image
-        setBatchFiles([]);
-        setActiveTool('retouch'); // Switch back to editor view to see results
+      await generateIntoHistory(() => generateExpandedImage(currentImage, expansion, signal), 'expanded', stats => createEditMetadata('expand', describeExpansion(expansion), { expansion, ...stats }), signal);
     } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred during batch processing. Some images may not have been processed.');
-        // Still show partial results if any
-        if (results.length > 0) {
-            setHistory(results);
-            setHistoryIndex(results.length - 1);
-        }
+      reportGenerationError(err, 'An unknown error occurred while expanding the image.', () => handleExpand(expansion));
+    } finally {
+      setIsLoading(false);
+      setActiveRequest(null);
+    }
+  }, [currentImage, generateIntoHistory, beginRequest, reportGenerationError]);
+
+  const handleExportRecipe = useCallback((name: string) => {
+    const { recipe: exported } = recipeFromHistory(currentPath, name);
+    if (exported.steps.length === 0) { setError('There are no replayable steps to save. The steps left out of recipes are listed above the Download Recipe button.'); return; }
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([serializeRecipe(exported)], { type: 'application/json' }));
+    link.download = `${name.replace(/[^a-z0-9_\-]/gi, '_')}.recipe.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  }, [currentPath]);
+
+  const handleImportRecipe = useCallback(async (file: File) => {
+    try {
+      setRecipe(parseRecipe(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the recipe file.');
+    }
+  }, []);
+
+  const applyRecipeFrom = useCallback(async (file: File, toApply: Recipe) => {
+    setIsLoading(true);
+    setError(null);
+    const signal = beginRequest();
+    const completed: HistoryEntry[] = [];
+    const commit = () => completed.forEach(entry => addImageToHistory(entry.file, entry.meta));
+    try {
+        await runRecipe(file, toApply, entry => { completed.push(entry); }, signal);
+        commit();
+    } catch (err) {
+        // A failed step keeps the steps before it, and retrying picks up at the failed
+        // step from the last image produced. A cancelled recipe adds nothing.
+        if (isCancellation(err)) return;
+        commit();
+        const lastOutput = completed.length > 0 ? completed[completed.length - 1].file : file;
+        reportGenerationError(err, 'An unknown error occurred while applying the recipe.', () => applyRecipeFrom(lastOutput, { ...toApply, steps: toApply.steps.slice(completed.length) }));
     } finally {
         setIsLoading(false);
+        setActiveRequest(null);
     }
-  }, [batchFiles, pinnedFrameStyle]);
-
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) { setError('Please select an area to crop.'); return; }
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) { setError('Could not process the crop.'); return; }
-    ctx.drawImage(image, completedCrop.x * scaleX, completedCrop.y * scaleY, completedCrop.width * scaleX, completedCrop.height * scaleY, 0, 0, completedCrop.width, completedCrop.height);
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
-  }, [completedCrop, addImageToHistory]);
-
-  const handleUndo = useCallback(() => { if (canUndo) { setHistoryIndex(i => i - 1); setEditHotspots([]); setDisplayHotspots([]); } }, [canUndo]);
-  const handleRedo = useCallback(() => { if (canRedo) { setHistoryIndex(i => i + 1); setEditHotspots([]); setDisplayHotspots([]); } }, [canRedo]);
-  const handleReset = useCallback(() => { if (history.length > 0) { setHistoryIndex(0); setError(null); setEditHotspots([]); setDisplayHotspots([]); setSelectedIndices(new Set()); } }, [history]);
-  const handleUploadNew = useCallback(() => { setHistory([]); setHistoryIndex(-1); setError(null); setPrompt(''); setEditHotspots([]); setDisplayHotspots([]); setCompositeFiles([]); setStyleSourceIndex(0); setBatchFiles([]); setActiveTool('retouch'); setSelectedIndices(new Set()); }, []);
-  const handleDownloadCurrentImage = useCallback(() => {
-      if (currentImage) {
+  }, [addImageToHistory, beginRequest, reportGenerationError]);
+
+  const handleApplyRecipe = useCallback(() => {
+    if (currentImage && recipe) applyRecipeFrom(currentImage, recipe);
+  }, [currentImage, recipe, applyRecipeFrom]);
+
+  // Batch results stay out of the editor history; each image gets its own result.
+  const handleRunBatch = useCallback(async (job: BatchJob) => {
+    if (batchQueueRef.current) return;
+    setBatchJob(job);
+    setError(null);
+    const queue = startBatchQueue(
+        job.items,
+        (item, signal) => processBatchItem(job, item, signal),
+        (itemId, changes) => setBatchJob(current => current?.id === job.id ? updateBatchItem(current, itemId, changes) : current),
+        { concurrency: batchConcurrency },
+    );
+    batchQueueRef.current = queue;
+    setBatchRunState('running');
+    await queue.done;
+    batchQueueRef.current = null;
+    setBatchRunState('idle');
+  }, [batchConcurrency]);
+
+  const handlePauseBatch = useCallback(() => { batchQueueRef.current?.pause(); setBatchRunState('paused'); }, []);
+  const handleResumeBatch = useCallback(() => { batchQueueRef.current?.resume(); setBatchRunState('running'); }, []);
+  const handleCancelBatch = useCallback(() => { batchQueueRef.current?.cancel(); }, []);
+
+  const handleApplyPinnedToBatch = useCallback(() => {
+    if (!pinnedOperation || batchFiles.length === 0) return;
+    handleRunBatch(createBatchJob(describeOperation(pinnedOperation), [pinnedOperation], batchFiles));
+  }, [pinnedOperation, batchFiles, handleRunBatch]);
+
+  const handleApplyRecipeToBatch = useCallback(() => {
+    if (!recipe || batchFiles.length === 0) return;
+    handleRunBatch(createBatchJob(recipe.name, recipe.steps, batchFiles, recipe.name));
+  }, [recipe, batchFiles, handleRunBatch]);
+
+  const handleApplyTone = useCallback(async () => {
+    if (!currentImage || isNeutralTone(toneAdjustments)) return;
+    try {
+      const adjusted = await applyToneToFile(currentImage, toneAdjustments);
+      addImageToHistory(adjusted, createEditMetadata('adjust', describeToneAdjustments(toneAdjustments), { tone: toneAdjustments }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not apply the adjustments.');
+    }
+  }, [currentImage, toneAdjustments, addImageToHistory]);
+
+  const handleApplyCrop = useCallback(async () => {
+    const hasSelection = !!completedCrop?.width && !!completedCrop.height;
+    const transform = isNeutralTransform(cropTransform) ? undefined : cropTransform;
+    if (!currentImage || !imageSize || (!hasSelection && !transform)) { setError('Please select an area to crop.'); return; }
+    // Straightening or flipping without a selection keeps the whole frame.
+    const relativeCrop = hasSelection ? { x: completedCrop.x / 100, y: completedCrop.y / 100, width: completedCrop.width / 100, height: completedCrop.height / 100 } : { x: 0, y: 0, width: 1, height: 1 };
+    const cropRect = { x: Math.round(relativeCrop.x * imageSize.width), y: Math.round(relativeCrop.y * imageSize.height), width: Math.round(relativeCrop.width * imageSize.width), height: Math.round(relativeCrop.height * imageSize.height) };
+    try {
+      const newImageFile = await cropImageFile(currentImage, relativeCrop, transform);
+      addImageToHistory(newImageFile, createEditMetadata('crop', '', { crop: cropRect, relativeCrop, ...(transform && { transform }) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not process the crop.');
+    }
+  }, [currentImage, imageSize, completedCrop, cropTransform, addImageToHistory]);
+
+  const handleRotateQuarter = useCallback(async (quarterTurns: 1 | 3) => {
+    if (!currentImage) return;
+    const transform = { ...NEUTRAL_TRANSFORM, quarterTurns };
+    const relativeCrop = { x: 0, y: 0, width: 1, height: 1 };
+    try {
+      const rotated = await cropImageFile(currentImage, relativeCrop, transform);
+      // A selection drawn on the old orientation would land somewhere else on the new one.
+      setCrop(undefined);
+      setCompletedCrop(undefined);
+      addImageToHistory(rotated, createEditMetadata('crop', '', { relativeCrop, transform }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not rotate the image.');
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleAutoStraighten = useCallback(async () => {
+    if (!currentImage) return;
+    try {
+      const angle = await estimateStraightenAngle(currentImage);
+      if (angle === null) { setError('No horizon or straight edges were found to level the image by. Use the Straighten slider instead.'); return; }
+      setError(null);
+      setCropTransform(transform => ({ ...transform, angle: Math.max(-MAX_STRAIGHTEN_ANGLE, Math.min(MAX_STRAIGHTEN_ANGLE, angle)) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not analyze the image.');
+    }
+  }, [currentImage]);
+
+  // Typed-in selections arrive in image pixels; the crop state is kept in percent.
+  const handleCropSelectionChange = useCallback((rect: { x: number; y: number; width: number; height: number }) => {
+    if (!imageSize) return;
+    const percentCrop: PercentCrop = { unit: '%', x: (rect.x / imageSize.width) * 100, y: (rect.y / imageSize.height) * 100, width: (rect.width / imageSize.width) * 100, height: (rect.height / imageSize.height) * 100 };
+    setCrop(percentCrop);
+    setCompletedCrop(percentCrop);
+  }, [imageSize]);
+
+  const cropSelection = imageSize && crop?.width && crop.height
+    ? { x: Math.round((crop.x / 100) * imageSize.width), y: Math.round((crop.y / 100) * imageSize.height), width: Math.round((crop.width / 100) * imageSize.width), height: Math.round((crop.height / 100) * imageSize.height) }
+    : null;
+
+  const handleUndo = useCallback(() => { if (canUndo) { setHistoryTree(undoHistory); setEditHotspots([]); } }, [canUndo]);
+  const handleRedo = useCallback(() => { if (canRedo) { setHistoryTree(redoHistory); setEditHotspots([]); } }, [canRedo]);
+  const handleReset = useCallback(() => { if (historyTree.rootId) { setHistoryTree(tree => ({ ...tree, currentId: tree.rootId })); setError(null); setEditHotspots([]); setSelectedNodeIds(new Set()); } }, [historyTree.rootId]);
+  const handleSelectHistoryNode = useCallback((id: string) => { setHistoryTree(tree => selectHistoryNode(tree, id)); setEditHotspots([]); }, []);
+  const handleUploadNew = useCallback(async () => {
+    // Flush any pending autosave so the session browser shows the latest state.
+    await persistSession().catch(err => console.error('Failed to save the session.', err));
+    setActiveSession(null); setHistoryTree(emptyHistoryTree); setError(null); setPrompt(''); setEditHotspots([]); setCompositeFiles([]); setStyleSourceIndex(0); setBatchFiles([]); batchQueueRef.current?.cancel(); setBatchJob(null); setActiveTool('retouch'); setSelectedNodeIds(new Set()); setVariantSet(null); setDiscardedVariants([]);
+  }, [persistSession]);
+
+  const handleResumeSession = useCallback(async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session || !session.history.rootId) { setError('That session could not be found.'); return; }
+      setError(null);
+      setActiveSession({ id: session.id, name: session.name, createdAt: session.createdAt });
+      setHistoryTree(session.history);
+      setPinnedOperation(session.pinnedOperation);
+      setSelectedNodeIds(new Set(session.selectedNodeIds));
+      setDiscardedVariants(session.discardedVariants);
+      setVariantSet(null);
+      setCompositeFiles([]);
+      setStyleSourceIndex(0);
+      setBatchFiles([]);
+      setEditHotspots([]);
+      setActiveTool('retouch');
+      setCrop(undefined);
+      setCompletedCrop(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the session.');
+    }
+  }, []);
+
+  // Opens one batch result as a session of its own: the source image followed by its edits.
+  const handleOpenBatchResult = useCallback(async (item: BatchItem) => {
+    await persistSession().catch(err => console.error('Failed to save the session.', err));
+    setError(null);
+    setHistoryTree(createLinearTree([{ file: item.source, meta: createEditMetadata('upload', '') }, ...item.results]));
+    startNewSession(item.source.name);
+    setSelectedNodeIds(new Set());
+    setVariantSet(null);
+    setDiscardedVariants([]);
+    setEditHotspots([]);
+    setActiveTool('retouch');
+  }, [persistSession]);
+
+  const runSessionAction = useCallback(async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the saved session.');
+    }
+    await refreshSessions();
+  }, [refreshSessions]);
+
+  const handleOutputPolicyChange = useCallback((policy: OutputPolicy) => {
+    setOutputPolicyState(policy);
+    setOutputPolicy(policy);
+  }, []);
+
+  const handleDownloadCurrentImage = useCallback(async () => {
+      if (!currentImage) return;
+      try {
+          const file = await exportImageFile(currentImage, outputPolicy, originalImage ?? undefined);
           const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `edited-${currentImage.name}`;
+          link.href = URL.createObjectURL(file);
+          link.download = `edited-${file.name}`;
           document.body.appendChild(link);
           link.click();
           document.body.removeChild(link);
           URL.revokeObjectURL(link.href);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to prepare the download.');
       }
-  }, [currentImage]);
+  }, [currentImage, originalImage, outputPolicy]);
   
-  const handleToggleSelection = (index: number) => {
-    setSelectedIndices(prev => {
+  const handleToggleSelection = (id: string) => {
+    setSelectedNodeIds(prev => {
         const newSet = new Set(prev);
-        if (newSet.has(index)) {
-            newSet.delete(index);
+        if (newSet.has(id)) {
+            newSet.delete(id);
         } else {
-            newSet.add(index);
+            newSet.add(id);
         }
         return newSet;
     });
   };
 
-  const handleDownloadZip = useCallback(async (filesToZip: File[], archiveName: string) => {
-    if (filesToZip.length === 0) {
+  const handleDownloadZip = useCallback(async (nodesToZip: ZipEntry[], archiveName: string) => {
+    if (nodesToZip.length === 0) {
         setError("No images selected to download.");
         return;
     }
@@ -404,10 +974,14 @@ const App: React.FC = () => {
     try {
         const JSZip = (await import('jszip')).default;
         const zip = new JSZip();
-        filesToZip.forEach((file, index) => {
-            const fileName = file.name.replace(/[^a-z0-9_.\-]/gi, '_');
-            zip.file(`${String(index).padStart(3, '0')}_${fileName}`, file);
-        });
+        const manifestEntries: { fileName: string; node: ZipEntry }[] = [];
+        for (const [index, node] of nodesToZip.entries()) {
+            const file = await exportImageFile(node.file, outputPolicy, node.original ?? originalImage ?? undefined);
+            const fileName = `${String(index).padStart(3, '0')}_${file.name.replace(/[^a-z0-9_.\-]/gi, '_')}`;
+            zip.file(fileName, file);
+            manifestEntries.push({ fileName, node });
+        }
+        zip.file('manifest.json', buildZipManifest(manifestEntries));
 
         const content = await zip.generateAsync({ type: 'blob' });
         const link = document.createElement('a');
@@ -417,34 +991,50 @@ const App: React.FC = () => {
         link.click();
         document.body.removeChild(link);
         URL.revokeObjectURL(link.href);
-        setSelectedIndices(new Set()); // Clear selection after download
+        setSelectedNodeIds(new Set()); // Clear selection after download
     } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to create zip archive.');
     } finally {
         setIsLoading(false);
     }
-  }, []);
+  }, [originalImage, outputPolicy]);
 
 
-  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTool !== 'retouch') return;
-    const img = e.currentTarget;
-    const rect = img.getBoundingClientRect();
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-    setDisplayHotspots(prev => [...prev, { x: offsetX, y: offsetY }]);
-    
-    const { naturalWidth, naturalHeight, clientWidth, clientHeight } = img;
-    const scaleX = naturalWidth / clientWidth;
-    const scaleY = naturalHeight / clientHeight;
-    const originalX = Math.round(offsetX * scaleX);
-    const originalY = Math.round(offsetY * scaleY);
-    setEditHotspots(prev => [...prev, { x: originalX, y: originalY }]);
+  const handleDownloadBatchResults = useCallback(() => {
+    if (!batchJob) return;
+    const results = batchJob.items.flatMap(item => {
+        const output = getBatchItemOutput(item);
+        if (!output) return [];
+        const extension = output.file.type.split('/')[1] ?? 'png';
+        const file = new File([output.file], `${item.source.name.replace(/\.[^.]+$/, '')}-edited.${extension}`, { type: output.file.type });
+        return [{ ...output, file, source: item.source.name, original: item.source }];
+    });
+    handleDownloadZip(results, 'dreamcraft_batch');
+  }, [batchJob, handleDownloadZip]);
+
+  // Points arrive from the editor canvas already in image pixels, whatever the zoom.
+  const handleCanvasClick = (point: { x: number, y: number }) => {
+    if (anchorMode === 'point') {
+      setAnchorPoint({ x: Math.round(point.x), y: Math.round(point.y) });
+      return;
+    }
+    if (activeTool !== 'retouch' || retouchMode !== 'points') return;
+    const id = crypto.randomUUID();
+    setSelectedHotspot(id);
+    setEditHotspots(prev => [...prev, { id, x: Math.round(point.x), y: Math.round(point.y) }]);
+  };
+
+  const updateHotspot = (id: string, changes: Partial<Hotspot>) => {
+    setEditHotspots(prev => prev.map(hotspot => hotspot.id === id ? { ...hotspot, ...changes } : hotspot));
+  };
+
+  const handleDeleteHotspot = (id: string) => {
+    setEditHotspots(prev => prev.filter(hotspot => hotspot.id !== id));
+    setSelectedHotspot(selected => selected === id ? null : selected);
   };
 
   const handleUndoHotspot = () => {
-    setDisplayHotspots(prev => prev.slice(0, -1));
-    setEditHotspots(prev => prev.slice(0, -1));
+    if (editHotspots.length > 0) handleDeleteHotspot(editHotspots[editHotspots.length - 1].id);
   };
   
   const renderControlPanel = () => {
@@ -470,49 +1060,173 @@ const App: React.FC = () => {
                   </button>
               </div>;
           case 'retouch':
-              return <div className="flex flex-col items-center gap-4 animate-fade-in">
-                  <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200 self-start">Precise Retouching</h3>
-                  <p className="text-md text-slate-600 dark:text-gray-400">{editHotspots.length > 0 ? 'Describe your edit below.' : 'Click one or more areas on the image to edit.'}</p>
-                  <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex flex-col items-center gap-2">
-                      <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={editHotspots.length > 0 ? "e.g., 'change shirt to blue'" : "First click the image"} rows={4} className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 resize-y" disabled={isLoading || editHotspots.length === 0} />
-                      <div className="w-full grid grid-cols-2 gap-2">
-                        <button type="button" onClick={handleUndoHotspot} className="flex items-center justify-center text-center bg-slate-200 dark:bg-white/10 border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-300 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed" disabled={isLoading || editHotspots.length === 0}>
-                            Undo Last Point
-                        </button>
-                        <button type="submit" className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 text-base rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !prompt.trim() || editHotspots.length === 0}>Generate</button>
-                      </div>
-                  </form>
-              </div>;
+              return <RetouchPanel
+                  prompt={prompt}
+                  onPromptChange={setPrompt}
+                  onGenerate={handleGenerate}
+                  isLoading={isLoading}
+                  mode={retouchMode}
+                  onModeChange={setRetouchMode}
+                  hotspots={editHotspots}
+                  selectedHotspot={selectedHotspot}
+                  onSelectHotspot={setSelectedHotspot}
+                  onHotspotInstructionChange={(id, instruction) => updateHotspot(id, { instruction })}
+                  onDeleteHotspot={handleDeleteHotspot}
+                  onUndoHotspot={handleUndoHotspot}
+                  hasMask={hasMask}
+                  onClearMask={clearMask}
+                  brushSize={brushSize}
+                  onBrushSizeChange={setBrushSize}
+                  feather={brushFeather}
+                  onFeatherChange={setBrushFeather}
+                  isErasing={isErasing}
+                  onErasingChange={setIsErasing}
+                  editRadius={editRadius}
+                  onEditRadiusChange={setEditRadius}
+                  restoreUntouched={restoreUntouched}
+                  onRestoreUntouchedChange={setRestoreUntouched}
+              />;
           case 'replace':
-              return <div className="flex flex-col items-center gap-4 animate-fade-in">
-                  <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200 self-start">Replace Object</h3>
-                  <p className="text-md text-slate-600 dark:text-gray-400">Describe the object and what to replace it with.</p>
-                  <form onSubmit={(e) => { e.preventDefault(); handleReplaceObject(); }} className="w-full flex flex-col items-center gap-2">
-                      <input type="text" value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder="Object to replace" className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full" disabled={isLoading} />
-                      <input type="text" value={secondaryPrompt} onChange={(e) => setSecondaryPrompt(e.target.value)} placeholder="Replace with" className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full" disabled={isLoading} />
-                      <button type="submit" className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !prompt.trim() || !secondaryPrompt.trim()}>Replace</button>
-                  </form>
-              </div>;
-          case 'creative': return <CreativePanel onApplyStyle={handleApplyCreativeStyle} isLoading={isLoading} />;
-          case 'adjust': return <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} />;
-          case 'crop': return <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />;
-          case 'frame': return <FramePanel onApplyFrame={handleApplyFrame} onPinFrame={setPinnedFrameStyle} isLoading={isLoading} pinnedFrameStyle={pinnedFrameStyle} />;
-          case 'batch': return <BatchPanel onApplyFrame={handleApplyFrameToBatch} isLoading={isLoading} pinnedFrameStyle={pinnedFrameStyle} hasBatchFiles={batchFiles.length > 0} />;
+              return <ReplacePanel
+                  target={prompt}
+                  onTargetChange={setPrompt}
+                  replacement={secondaryPrompt}
+                  onReplacementChange={setSecondaryPrompt}
+                  anchorMode={replaceAnchorMode}
+                  onAnchorModeChange={setReplaceAnchorMode}
+                  hasAnchor={!!currentAnchor}
+                  onClearAnchor={clearAnchor}
+                  reference={replaceReference}
+                  onReferenceChange={setReplaceReference}
+                  onReplace={handleReplaceObject}
+                  isPinned={pinnedOperation?.tool === 'replace' && pinnedOperation.target === prompt && pinnedOperation.replacement === secondaryPrompt}
+                  onTogglePin={() => setPinnedOperation(current => current?.tool === 'replace' && current.target === prompt && current.replacement === secondaryPrompt ? null : { tool: 'replace', target: prompt, replacement: secondaryPrompt })}
+                  isLoading={isLoading}
+              />;
+          case 'place':
+              return <PlacePanel
+                  products={products}
+                  selectedProductId={selectedProductId}
+                  onSelectProduct={setSelectedProductId}
+                  onSaveProduct={handleSaveProduct}
+                  onDeleteProduct={handleDeleteProduct}
+                  anchorMode={placeAnchorMode}
+                  onAnchorModeChange={setPlaceAnchorMode}
+                  hasAnchor={!!currentAnchor}
+                  onClearAnchor={clearAnchor}
+                  instructions={placeInstructions}
+                  onInstructionsChange={setPlaceInstructions}
+                  onPlace={handlePlaceProduct}
+                  isLoading={isLoading}
+              />;
+          case 'creative': return <CreativePanel onApplyStyle={handleApplyCreativeStyle} onPin={pinned => setPinnedOperation(pinned ? { tool: 'creative', prompt: pinned } : null)} pinnedPrompt={pinnedOperation?.tool === 'creative' ? pinnedOperation.prompt : null} isLoading={isLoading} />;
+          case 'adjust': return (
+            <AdjustmentPanel
+              onApplyAdjustment={handleApplyAdjustment}
+              onPin={pinned => setPinnedOperation(pinned ? { tool: 'adjust', prompt: pinned } : null)}
+              pinnedPrompt={pinnedOperation?.tool === 'adjust' ? pinnedOperation.prompt : null}
+              tone={toneAdjustments}
+              onToneChange={setToneAdjustments}
+              onApplyTone={handleApplyTone}
+              onPinTone={pinned => setPinnedOperation(pinned ? { tool: 'tone', tone: pinned } : null)}
+              pinnedTone={pinnedOperation?.tool === 'tone' ? pinnedOperation.tone : null}
+              histogram={currentHistogram}
+              isLoading={isLoading}
+            />
+          );
+          case 'crop': return (
+            <CropPanel
+              onApplyCrop={handleApplyCrop}
+              onSetAspect={setAspect}
+              onPinAspect={pinned => setPinnedOperation(pinned ? { tool: 'centerCrop', aspect: pinned.value, label: pinned.label } : null)}
+              pinnedAspectLabel={pinnedOperation?.tool === 'centerCrop' ? pinnedOperation.label : null}
+              imageSize={imageSize}
+              selection={cropSelection}
+              onSelectionChange={handleCropSelectionChange}
+              transform={cropTransform}
+              onTransformChange={setCropTransform}
+              onAutoStraighten={handleAutoStraighten}
+              onRotate={handleRotateQuarter}
+              guide={cropGuide}
+              onGuideChange={setCropGuide}
+              isLoading={isLoading}
+              isCropping={!!completedCrop?.width && completedCrop.width > 0}
+            />
+          );
+          case 'expand': return (
+            <ExpandPanel
+              imageUrl={currentImageUrl}
+              imageSize={imageSize}
+              onExpand={handleExpand}
+              onPin={expansion => setPinnedOperation(expansion ? { tool: 'expand', expansion } : null)}
+              pinnedExpansion={pinnedOperation?.tool === 'expand' ? pinnedOperation.expansion : null}
+              isLoading={isLoading}
+            />
+          );
+          case 'frame': return <FramePanel onApplyFrame={handleApplyFrame} onPinFrame={frame => setPinnedOperation(frame ? { tool: 'frame', frame } : null)} isLoading={isLoading} pinnedFrameStyle={pinnedOperation?.tool === 'frame' ? pinnedOperation.frame : null} />;
+          case 'batch': return <BatchPanel
+              onApplyPinned={handleApplyPinnedToBatch}
+              onApplyRecipe={handleApplyRecipeToBatch}
+              onDownloadResults={handleDownloadBatchResults}
+              onNewBatch={() => { setBatchFiles([]); setBatchJob(null); }}
+              runState={batchRunState}
+              onPause={handlePauseBatch}
+              onResume={handleResumeBatch}
+              onCancel={handleCancelBatch}
+              onContinue={() => batchJob && handleRunBatch(batchJob)}
+              onRetryFailed={() => batchJob && handleRunBatch(resetFailedItems(batchJob))}
+              concurrency={batchConcurrency}
+              onConcurrencyChange={setBatchConcurrency}
+              isLoading={isLoading}
+              pinnedOperation={pinnedOperation}
+              recipe={recipe}
+              job={batchJob}
+              hasBatchFiles={batchFiles.length > 0}
+          />;
+          case 'compare': return <ComparePanel
+              mode={compareMode}
+              onModeChange={setCompareMode}
+              options={compareOptions}
+              beforeId={compareBefore?.id ?? null}
+              afterId={compareAfter?.id ?? null}
+              onBeforeChange={setCompareBeforeId}
+              onAfterChange={setCompareAfterId}
+              onSwap={() => { setCompareBeforeId(compareAfter?.id ?? null); setCompareAfterId(compareBefore?.id ?? null); }}
+          />;
+          case 'recipe': return <RecipePanel
+              recipe={recipe}
+              onImportRecipe={handleImportRecipe}
+              onClearRecipe={() => setRecipe(null)}
+              onApplyRecipe={handleApplyRecipe}
+              onExportRecipe={handleExportRecipe}
+              exportableStepCount={recipePreview.recipe.steps.length}
+              skippedSteps={recipePreview.skipped}
+              isLoading={isLoading}
+          />;
           default: return null;
       }
   };
 
   const renderContent = () => {
-    if (error) {
-       return <div className="text-center animate-fade-in bg-red-500/10 border border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto my-auto flex flex-col items-center gap-4">
-            <h2 className="text-2xl font-bold text-red-600 dark:text-red-300">An Error Occurred</h2>
-            <p className="text-md text-red-700 dark:text-red-400">{error}</p>
-            <button onClick={() => setError(null)} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors">Try Again</button>
-          </div>;
+    if (errorState) {
+       const { retry } = errorState;
+       return <ErrorPanel
+            message={errorState.message}
+            cause={errorState.cause}
+            onRetry={retry && (() => { setErrorState(null); retry(); })}
+            onDismiss={() => setErrorState(null)}
+          />;
     }
     
     if (!currentImageUrl && activeTool !== 'composite' && activeTool !== 'batch') {
-        return <div className="w-full flex justify-center items-center"><StartScreen onFileSelect={(files) => files && handleStartEditing(files[0])} /></div>;
+        return <div className="w-full flex justify-center items-center"><StartScreen
+            onFileSelect={(files) => files && handleStartEditing(files[0])}
+            sessions={sessions}
+            onResumeSession={handleResumeSession}
+            onRenameSession={(id, name) => runSessionAction(() => renameSession(id, name))}
+            onDuplicateSession={(id) => runSessionAction(() => duplicateSession(id))}
+            onDeleteSession={(id) => runSessionAction(() => deleteSession(id))}
+        /></div>;
     }
     
     if (activeTool === 'composite' && compositeFiles.length === 0) {
@@ -534,7 +1248,7 @@ const App: React.FC = () => {
             <div className="text-center max-w-2xl animate-fade-in flex flex-col items-center gap-6">
                 <BatchIcon className="w-16 h-16 text-blue-600 dark:text-blue-400" />
                 <h2 className="text-4xl font-bold text-slate-800 dark:text-gray-100">Batch Processing Tool</h2>
-                <p className="text-lg text-slate-600 dark:text-gray-400">Select multiple images to apply the same effect to all of them at once. Pin a frame in the 'Frame' tool to get started.</p>
+                <p className="text-lg text-slate-600 dark:text-gray-400">Select multiple images to apply the same effect to all of them at once. Pin an edit from the Creative, Adjust, Replace, Crop, Expand or Frame tool, or load a recipe, to get started.</p>
                 <label htmlFor="batch-upload" className="relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white bg-blue-600 rounded-full cursor-pointer group hover:bg-blue-500 transition-colors">
                     Select Images for Batch
                 </label>
@@ -544,21 +1258,83 @@ const App: React.FC = () => {
     }
 
 
-    const imageDisplay = (
-      <div className="relative">
-        {originalImageUrl && <img key={originalImageUrl} src={originalImageUrl} alt="Original" className="w-full h-auto object-contain max-h-[70vh] rounded-xl pointer-events-none" />}
-        <img ref={imgRef} key={currentImageUrl} src={currentImageUrl} alt="Current" onClick={handleImageClick} className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[70vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTool === 'retouch' ? 'cursor-crosshair' : ''}`} />
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+
+    // Layers inside the editor canvas, all laid out in the current image's pixels.
+    const imageDisplay = (zoom: number) => (
+      <div className="relative w-full h-full">
+        {originalImageUrl && <img key={originalImageUrl} src={originalImageUrl} alt="Original" className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />}
+        <img key={currentImageUrl} src={currentImageUrl ?? undefined} alt="Current" onLoad={handleImageLoad} className={`absolute inset-0 w-full h-full transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTool === 'retouch' ? 'cursor-crosshair' : ''}`} draggable={false} />
+        {activeTool === 'adjust' && currentImage && !isComparing && <TonePreview file={currentImage} tone={toneAdjustments} />}
+        {driftOverlayUrl && !isComparing && <img src={driftOverlayUrl} alt="Drift overlay" className="absolute inset-0 w-full h-full pointer-events-none opacity-90" />}
+        {!isLoading && activeTool === 'retouch' && retouchMode === 'points' && imageSize && editHotspots.map((hotspot, index) => (
+          <HotspotMarker
+            key={hotspot.id}
+            hotspot={hotspot}
+            number={index + 1}
+            zoom={zoom}
+            bounds={imageSize}
+            isSelected={selectedHotspot === hotspot.id}
+            onSelect={() => setSelectedHotspot(hotspot.id)}
+            onMove={(point) => updateHotspot(hotspot.id, point)}
+            onDelete={() => handleDeleteHotspot(hotspot.id)}
+          />
+        ))}
+        {!isLoading && anchorMode === 'point' && anchorPoint && imageSize && (
+          <HotspotMarker
+            hotspot={anchorPoint}
+            number={1}
+            zoom={zoom}
+            bounds={imageSize}
+            isSelected={false}
+            onSelect={() => {}}
+            onMove={setAnchorPoint}
+            onDelete={() => setAnchorPoint(null)}
+          />
+        )}
+        {activeTool === 'retouch' && imageSize && (
+          <MaskCanvas
+            canvasRef={maskCanvasRef}
+            width={imageSize.width}
+            height={imageSize.height}
+            brushSize={brushSize}
+            isErasing={isErasing}
+            disabled={isLoading}
+            hidden={retouchMode !== 'brush' || isComparing}
+            onPaint={() => setHasMask(true)}
+            onDiscard={() => setHasMask(false)}
+          />
+        )}
       </div>
     );
     
-    const cropImageElement = <img ref={imgRef} key={`crop-${currentImageUrl}`} src={currentImageUrl} alt="Crop this image" className="w-full h-auto object-contain max-h-[70vh] rounded-xl" />;
+    const selectionImageElement = <img key={`select-${currentImageUrl}`} src={currentImageUrl ?? undefined} alt="Select an area" onLoad={handleImageLoad} className="w-full h-full" draggable={false} />;
+    // The crop view previews the pending flip and straightening; the selection applies to the result.
+    const cropImageElement = (
+      <img
+        key={`crop-${currentImageUrl}`}
+        src={currentImageUrl ?? undefined}
+        alt="Select an area to crop"
+        onLoad={handleImageLoad}
+        className="w-full h-full"
+        style={imageSize && !isNeutralTransform(cropTransform) ? { transform: previewTransformStyle(imageSize.width, imageSize.height, cropTransform) } : undefined}
+        draggable={false}
+      />
+    );
+    const isSelectingBox = anchorMode === 'box';
 
     return (
       <div className="w-full h-full flex animate-fade-in">
         <Toolbar activeTool={activeTool} setActiveTool={setActiveTool} isLoading={isLoading} />
         
         <div className="flex-grow flex flex-col items-center justify-start p-4 md:p-8 gap-4 overflow-y-auto">
-            {isLoading && <div className="absolute inset-0 bg-white/70 dark:bg-black/70 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in backdrop-blur-sm"><Spinner /><p className="text-slate-700 dark:text-gray-300 font-semibold">AI is working its magic...</p></div>}
+            {isLoading && <div className="absolute inset-0 bg-white/70 dark:bg-black/70 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in backdrop-blur-sm"><Spinner /><p className="text-slate-700 dark:text-gray-300 font-semibold">AI is working its magic...</p>
+              {activeRequest && (
+                <button onClick={() => activeRequest.abort()} className="bg-transparent border border-slate-400 dark:border-white/30 text-slate-700 dark:text-gray-200 font-semibold py-2 px-6 rounded-lg transition-colors hover:bg-slate-200 dark:hover:bg-white/10">
+                  Cancel
+                </button>
+              )}
+            </div>}
             
             {activeTool === 'composite' && compositeFiles.length > 0 ? (
               <div className="w-full max-w-5xl">
@@ -578,7 +1354,9 @@ const App: React.FC = () => {
               <div className="w-full max-w-5xl">
                   <h2 className="text-2xl font-bold text-slate-800 dark:text-gray-200 mb-4 px-2">Batch Images ({batchFiles.length})</h2>
                   <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                      {batchFiles.map((file, index) => (
+                      {batchJob ? batchJob.items.map(item => (
+                          <BatchItemThumbnail key={item.id} item={item} onOpen={() => handleOpenBatchResult(item)} />
+                      )) : batchFiles.map((file, index) => (
                           <BatchThumbnail 
                               key={`${file.name}-${index}`}
                               file={file}
@@ -586,28 +1364,65 @@ const App: React.FC = () => {
                       ))}
                   </div>
               </div>
+            ) : variantSet ? (
+                <VariantGrid key={variantSet.entries[0].id} variants={variantSet} onKeep={handleKeepVariants} />
             ) : (
                 <>
                   <div className="relative w-full max-w-5xl shadow-2xl rounded-xl overflow-hidden bg-slate-200 dark:bg-black/20 flex items-center justify-center">
-                      {activeTool === 'crop' ? <ReactCrop crop={crop} onChange={c => setCrop(c)} onComplete={c => setCompletedCrop(c)} aspect={aspect} className="max-h-[70vh]">{cropImageElement}</ReactCrop> : imageDisplay}
-                      {!isLoading && activeTool === 'retouch' && displayHotspots.map((hotspot, index) => (
-                        <div key={index} className="absolute rounded-full w-6 h-6 bg-blue-500/50 border-2 border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10" style={{ left: `${hotspot.x}px`, top: `${hotspot.y}px` }}>
-                            {index === displayHotspots.length - 1 && <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-blue-400"></div>}
-                        </div>
-                      ))}
+                      {activeTool === 'compare' && compareBefore && compareAfter ? <CompareView before={compareBefore.file} after={compareAfter.file} beforeLabel={compareLabel(compareBefore.id)} afterLabel={compareLabel(compareAfter.id)} mode={compareMode} /> : (
+                        <EditorCanvas
+                          contentWidth={imageSize?.width ?? null}
+                          contentHeight={imageSize?.height ?? null}
+                          panWithLeftDrag={activeTool !== 'crop' && !isSelectingBox && !(activeTool === 'retouch' && retouchMode === 'brush')}
+                          onContentClick={handleCanvasClick}
+                          minimapUrl={currentImageUrl}
+                        >
+                          {zoom => activeTool === 'crop'
+                            ? <ReactCrop crop={crop} onChange={(_, percentCrop) => setCrop(percentCrop)} onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)} aspect={aspect} renderSelectionAddon={() => <CropGuides guide={cropGuide} />} className="w-full h-full">{cropImageElement}</ReactCrop>
+                            : isSelectingBox && !isLoading
+                            ? <ReactCrop crop={anchorBox} onChange={(_, percentCrop) => setAnchorBox(percentCrop)} className="w-full h-full">{selectionImageElement}</ReactCrop>
+                            : imageDisplay(zoom)}
+                        </EditorCanvas>
+                      )}
                   </div>
-                  {history.length > 1 && <div className="w-full max-w-5xl">
-                      <h3 className="text-sm font-bold text-slate-500 dark:text-gray-400 mb-2 px-2">History</h3>
+                  {currentNode?.meta.drift && driftParent && activeTool !== 'crop' && activeTool !== 'compare' && (
+                    <DriftReport drift={currentNode.meta.drift} isOverlayVisible={showDriftOverlay} onToggleOverlay={() => setShowDriftOverlay(visible => !visible)} />
+                  )}
+                  {historyNodeCount > 1 && <div className="w-full max-w-5xl">
+                      <h3 className="text-sm font-bold text-slate-500 dark:text-gray-400 mb-2 px-2">History{branchCount > 1 && <span className="font-normal"> · {branchCount} branches, showing the current one</span>}</h3>
                       <div className="flex gap-2 overflow-x-auto p-2 bg-slate-100 dark:bg-black/20 rounded-lg">
-                        {history.map((imgFile, index) => <ImageThumbnail key={`${imgFile.lastModified}-${index}`} file={imgFile} isSelected={index === historyIndex} onClick={() => { setHistoryIndex(index); setEditHotspots([]); setDisplayHotspots([]); }} isSelectedForDownload={selectedIndices.has(index)} onSelectToggle={() => handleToggleSelection(index)} />)}
+                        {branch.map(node => {
+                          const siblings = getSiblings(historyTree, node.id);
+                          const branchSwitcher = siblings.length > 1
+                            ? { index: siblings.findIndex(sibling => sibling.id === node.id), count: siblings.length, onSelect: (index: number) => handleSelectHistoryNode(siblings[index].id) }
+                            : undefined;
+                          return <ImageThumbnail key={node.id} file={node.file} parentFile={node.parentId ? historyTree.nodes[node.parentId]?.file : undefined} meta={node.meta} isSelected={node.id === historyTree.currentId} onClick={() => handleSelectHistoryNode(node.id)} isSelectedForDownload={selectedNodeIds.has(node.id)} onSelectToggle={() => handleToggleSelection(node.id)} branch={branchSwitcher} />;
+                        })}
                       </div>
                   </div>}
+                  {discardedVariants.length > 0 && <DiscardedTray variants={discardedVariants} onRestore={handleRestoreVariant} onClear={() => setDiscardedVariants([])} disabled={isLoading} />}
                 </>
             )}
         </div>
 
         <aside className="w-[380px] flex-shrink-0 bg-white/70 dark:bg-gray-800/30 border-l border-slate-200 dark:border-gray-700/80 p-6 flex flex-col gap-6 backdrop-blur-sm overflow-y-auto">
             {renderControlPanel()}
+
+            {variantTools.includes(activeTool) && currentImage && (
+              <label className="flex items-center justify-between gap-2 text-sm text-slate-600 dark:text-gray-400">
+                <span className="font-medium">Variants per request</span>
+                <select
+                  value={variantCount}
+                  onChange={(e) => setVariantCount(Number(e.target.value))}
+                  disabled={isLoading}
+                  className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                >
+                  {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+              </label>
+            )}
+
+            {currentImage && <HistogramPanel histogram={currentHistogram} />}
             
             {currentImage && 
               <div className="mt-auto pt-6 border-t border-slate-200 dark:border-gray-700 flex flex-col gap-4">
@@ -623,20 +1438,21 @@ const App: React.FC = () => {
 
                 <div className="flex flex-col gap-3 pt-4 border-t border-slate-200 dark:border-gray-700">
                     <h3 className="text-md font-semibold text-slate-800 dark:text-gray-300 flex items-center gap-2"><DownloadIcon className="w-5 h-5" />Downloads</h3>
+                    <OutputSettingsPanel policy={outputPolicy} onChange={handleOutputPolicyChange} disabled={isLoading} />
                     <button onClick={handleDownloadCurrentImage} disabled={isLoading} className="w-full bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed">Download Current Image</button>
                     <button 
-                        onClick={() => handleDownloadZip(Array.from(selectedIndices).map(i => history[i]), 'dreamcraft_selection')}
-                        disabled={isLoading || selectedIndices.size === 0} 
+                        onClick={() => handleDownloadZip(historyNodes.filter(node => selectedNodeIds.has(node.id)), 'dreamcraft_selection')}
+                        disabled={isLoading || selectedNodeIds.size === 0} 
                         className="w-full bg-green-600/80 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:bg-green-600/90 hover:-translate-y-px active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        Download Selected ({selectedIndices.size}) as .zip
+                        Download Selected ({selectedNodeIds.size}) as .zip
                     </button>
                     <button 
-                        onClick={() => handleDownloadZip(history, 'dreamcraft_session_history')}
-                        disabled={isLoading || history.length < 2} 
+                        onClick={() => handleDownloadZip(branch, 'dreamcraft_branch_history')}
+                        disabled={isLoading || branch.length < 2} 
                         className="w-full bg-green-600/80 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:bg-green-600/90 hover:-translate-y-px active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        Download Full History ({history.length}) as .zip
+                        Download Branch History ({branch.length}) as .zip
                     </button>
                 </div>
               </div>
@@ -661,10 +1477,17 @@ const App: React.FC = () => {
                 </div>
             </div>
         )}
-      <Header theme={theme} setTheme={setTheme} />
+      <Header theme={theme} setTheme={setTheme} onOpenDebug={() => setIsDebugOpen(true)} onOpenPrompts={() => setIsPromptEditorOpen(true)} />
+      {isDbBlocked && (
+        <p role="status" className="w-full text-center text-sm bg-amber-500/10 border-b border-amber-500/20 text-amber-700 dark:text-amber-300 px-4 py-2">
+          DreamCraft is open in another tab with an older version. Close or reload that tab to save sessions and products again.
+        </p>
+      )}
       <main className="flex-grow w-full max-w-full mx-auto flex">
         {renderContent()}
       </main>
+      {isDebugOpen && <DebugModal onClose={() => setIsDebugOpen(false)} />}
+      {isPromptEditorOpen && <PromptTemplateModal onClose={() => setIsPromptEditorOpen(false)} />}
     </div>
   );
 };
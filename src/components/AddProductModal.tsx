@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { MAX_PRODUCT_IMAGES, type Product } from '../services/productCatalog';
+
+interface AddProductModalProps {
+  // The product being edited, or null to add a new one.
+  product: Product | null;
+  onSave: (details: { name: string; description: string; images: File[] }) => Promise<void>;
+  onClose: () => void;
+}
+
+const ImageThumbnail: React.FC<{ file: File; onRemove: () => void }> = ({ file, onRemove }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <div className="relative aspect-square rounded-md overflow-hidden bg-white dark:bg-black/30 border border-slate-200 dark:border-gray-700">
+      {url && <img src={url} alt={file.name} className="w-full h-full object-contain" />}
+      <button type="button" onClick={onRemove} className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white text-sm hover:bg-red-500 transition-colors" aria-label={`Remove ${file.name}`}>×</button>
+    </div>
+  );
+};
+
+const inputClass = 'w-full bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-3 py-2 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ product, onSave, onClose }) => {
+  const [name, setName] = useState(product?.name ?? '');
+  const [description, setDescription] = useState(product?.description ?? '');
+  const [images, setImages] = useState<File[]>(product?.images ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape' && !isSaving) onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isSaving]);
+
+  const handleAddImages = (files: FileList | null) => {
+    if (!files) return;
+    setImages(current => [...current, ...Array.from(files)].slice(0, MAX_PRODUCT_IMAGES));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) { setError('Please give the product a name.'); return; }
+    if (images.length === 0) { setError('Please add at least one image of the product.'); return; }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ name: name.trim(), description: description.trim(), images });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the product.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 animate-fade-in" onClick={() => { if (!isSaving) onClose(); }}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg bg-white dark:bg-gray-900 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl p-6 flex flex-col gap-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="product-modal-title"
+      >
+        <h2 id="product-modal-title" className="text-xl font-bold text-slate-800 dark:text-gray-100">{product ? 'Edit Product' : 'Add Product'}</h2>
+
+        <label className="flex flex-col gap-1 text-sm font-medium text-slate-600 dark:text-gray-400">
+          Name
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Classic Ceramic Mug" className={inputClass} disabled={isSaving} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm font-medium text-slate-600 dark:text-gray-400">
+          Description
+          <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} placeholder="Material, color, size and anything the AI should get right, e.g., 'matte white, 350 ml, blue logo on the front'" className={`${inputClass} resize-y`} disabled={isSaving} />
+        </label>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Images ({images.length} of {MAX_PRODUCT_IMAGES})</span>
+          <div className="grid grid-cols-4 gap-2">
+            {images.map((file, index) => (
+              <ImageThumbnail key={`${file.name}-${index}`} file={file} onRemove={() => setImages(current => current.filter((_, i) => i !== index))} />
+            ))}
+            {images.length < MAX_PRODUCT_IMAGES && (
+              <label className={`aspect-square rounded-md border-2 border-dashed border-slate-300 dark:border-gray-600 flex items-center justify-center text-2xl text-slate-500 dark:text-gray-400 ${isSaving ? 'opacity-50' : 'cursor-pointer hover:border-blue-500 hover:text-blue-500'}`}>
+                +
+                <input type="file" accept="image/*" multiple className="hidden" disabled={isSaving} onChange={(e) => { handleAddImages(e.target.files); e.target.value = ''; }} />
+              </label>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-gray-500">Clear photos from a few angles on a plain background work best.</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} disabled={isSaving} className="py-2 px-4 rounded-md font-semibold bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20 transition-colors disabled:opacity-50">Cancel</button>
+          <button type="submit" disabled={isSaving} className="py-2 px-4 rounded-md font-bold bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20 disabled:opacity-50">{isSaving ? 'Saving…' : 'Save Product'}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AddProductModal;
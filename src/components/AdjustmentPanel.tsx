@@ -4,13 +4,39 @@
 */
 
 import React, { useState } from 'react';
+import PinButton from './PinButton';
+import CurvesEditor from './CurvesEditor';
+import { DEFAULT_TONE_ADJUSTMENTS, NEUTRAL_LEVELS, TONE_SLIDERS, isNeutralTone } from '../utils/toneAdjust';
+import type { Histogram } from '../utils/histogram';
+import type { ToneAdjustments } from '../types';
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string) => void;
+  onPin: (prompt: string | null) => void;
+  pinnedPrompt: string | null;
+  tone: ToneAdjustments;
+  onToneChange: (tone: ToneAdjustments) => void;
+  onApplyTone: () => void;
+  onPinTone: (tone: ToneAdjustments | null) => void;
+  pinnedTone: ToneAdjustments | null;
+  // Histogram of the current image, drawn behind the tone curve.
+  histogram: Histogram | null;
   isLoading: boolean;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading }) => {
+const formatSetting = (value: number, step: number) => `${value > 0 ? '+' : ''}${step < 1 ? value.toFixed(2) : value}`;
+
+const ToneSlider: React.FC<{ label: string; value: number; min: number; max: number; step: number; disabled: boolean; onChange: (value: number) => void }> = ({ label, value, min, max, step, disabled, onChange }) => (
+  <label className="flex flex-col gap-1" onDoubleClick={() => onChange(0)} title="Double-click to reset">
+    <span className="flex justify-between text-sm font-medium text-slate-600 dark:text-gray-400">
+      <span>{label}</span>
+      <span className="tabular-nums">{formatSetting(value, step)}</span>
+    </span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} disabled={disabled} className="w-full accent-blue-500" />
+  </label>
+);
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, onPin, pinnedPrompt, tone, onToneChange, onApplyTone, onPinTone, pinnedTone, histogram, isLoading }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
@@ -19,11 +45,11 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     { name: 'Enhance Details', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
     { name: 'Warmer Lighting', prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.' },
     { name: 'Studio Light', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
-    { name: 'Expand 16:9', prompt: 'Expand the image to a 16:9 aspect ratio by generating new, photorealistic content around the edges.' },
-    { name: 'Expand 4:3', prompt: 'Expand the image to a 4:3 aspect ratio by generating new, photorealistic content around the edges.' },
   ];
 
   const activePrompt = selectedPresetPrompt || customPrompt;
+  const isToneNeutral = isNeutralTone(tone);
+  const isTonePinned = !!pinnedTone && JSON.stringify(pinnedTone) === JSON.stringify(tone);
 
   const handlePresetClick = (prompt: string) => {
     setSelectedPresetPrompt(prompt);
@@ -44,6 +70,56 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
   return (
     <div className="w-full bg-slate-100/50 dark:bg-gray-800/50 border border-slate-200 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-center text-slate-800 dark:text-gray-300">Professional Adjustments</h3>
+
+      <div className="w-full flex flex-col gap-3 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700">
+        <p className="text-sm font-semibold text-slate-700 dark:text-gray-300">Instant Adjustments</p>
+        <p className="text-xs text-slate-500 dark:text-gray-500 -mt-2">Run on your device with a live preview, with no model call. Double-click a slider to reset it.</p>
+        {TONE_SLIDERS.map(({ key, label, min, max, step }) => (
+          <ToneSlider key={key} label={label} value={tone[key]} min={min} max={max} step={step} disabled={isLoading} onChange={(value) => onToneChange({ ...tone, [key]: value })} />
+        ))}
+        <div className="flex items-center justify-between pt-1">
+          <p className="text-sm font-semibold text-slate-700 dark:text-gray-300">Tone Curve</p>
+          <button
+            onClick={() => onToneChange({ ...tone, curve: [], levels: undefined })}
+            disabled={isLoading || (tone.curve.length === 0 && !tone.levels)}
+            className="text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            Reset Curve
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 dark:text-gray-500 -mt-2">Click to add a point, drag to move it, double-click to remove it.</p>
+        <CurvesEditor
+          curve={tone.curve}
+          levels={tone.levels ?? NEUTRAL_LEVELS}
+          histogram={histogram}
+          disabled={isLoading}
+          onCurveChange={(curve) => onToneChange({ ...tone, curve })}
+          onLevelsChange={(levels) => onToneChange({ ...tone, levels })}
+        />
+        <div className="grid grid-cols-2 gap-2 pt-1">
+          <button
+            onClick={() => onToneChange(DEFAULT_TONE_ADJUSTMENTS)}
+            disabled={isLoading || isToneNeutral}
+            className="bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 font-semibold py-3 px-4 rounded-md transition-colors hover:bg-slate-300 dark:hover:bg-white/20 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onApplyTone}
+            disabled={isLoading || isToneNeutral}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-md transition-all shadow-md shadow-blue-500/20 hover:shadow-lg hover:shadow-blue-500/40 active:scale-95 text-sm disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            Apply
+          </button>
+        </div>
+        <PinButton
+          isPinned={isTonePinned}
+          onClick={() => onPinTone(isTonePinned ? null : tone)}
+          disabled={isLoading || isToneNeutral}
+        />
+      </div>
+
+      <p className="text-sm font-semibold text-slate-700 dark:text-gray-300">AI Adjustments</p>
       
       <div className="grid grid-cols-2 md:grid-cols-2 gap-2">
         {presets.map(preset => (
@@ -76,6 +152,11 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
             >
                 Apply Adjustment
             </button>
+            <PinButton
+                isPinned={pinnedPrompt === activePrompt}
+                onClick={() => onPin(pinnedPrompt === activePrompt ? null : activePrompt)}
+                disabled={isLoading || !activePrompt.trim()}
+            />
         </div>
       )}
     </div>
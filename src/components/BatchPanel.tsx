@@ -4,30 +4,73 @@
 */
 
 import React from 'react';
+import type { Recipe } from '../services/recipeService';
+import type { BatchItemStatus, BatchJob } from '../services/batchJob';
+import { describeOperation } from '../services/operations';
+import type { EditOperation } from '../types';
 
 interface BatchPanelProps {
-  onApplyFrame: () => void;
+  onApplyPinned: () => void;
+  onApplyRecipe: () => void;
+  onDownloadResults: () => void;
+  onNewBatch: () => void;
   isLoading: boolean;
-  pinnedFrameStyle: { style: string; topText: string; bottomText: string } | null;
+  pinnedOperation: EditOperation | null;
+  recipe: Recipe | null;
+  job: BatchJob | null;
   hasBatchFiles: boolean;
+  runState: 'idle' | 'running' | 'paused';
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  // Runs the items a cancelled job never reached.
+  onContinue: () => void;
+  onRetryFailed: () => void;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
 }
 
-const BatchPanel: React.FC<BatchPanelProps> = ({ onApplyFrame, isLoading, pinnedFrameStyle, hasBatchFiles }) => {
+const concurrencyOptions = [1, 2, 3, 4];
+
+const secondaryButtonClass = 'flex-1 text-center bg-slate-200 dark:bg-white/10 border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-2 px-3 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-300 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-sm';
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ onApplyPinned, onApplyRecipe, onDownloadResults, onNewBatch, isLoading: isEditorLoading, pinnedOperation, recipe, job, hasBatchFiles, runState, onPause, onResume, onCancel, onContinue, onRetryFailed, concurrency, onConcurrencyChange }) => {
+  const isLoading = isEditorLoading || runState !== 'idle';
+  const countByStatus = (status: BatchItemStatus) => job?.items.filter(item => item.status === status).length ?? 0;
+  const doneCount = countByStatus('done');
+  const failedCount = countByStatus('failed');
+  const blockedCount = countByStatus('blocked');
+  const pendingCount = countByStatus('pending');
+  const finishedCount = doneCount + failedCount + blockedCount;
+  const progress = job && job.items.length > 0 ? finishedCount / job.items.length : 0;
+
   return (
     <div className="w-full bg-slate-100/50 dark:bg-gray-800/50 border border-slate-200 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-xl font-bold text-center text-slate-800 dark:text-gray-200">Batch Processing</h3>
-      
-      {pinnedFrameStyle ? (
+
+      <label className="flex items-center justify-between gap-2 text-sm text-slate-600 dark:text-gray-400">
+        <span className="font-medium">Images processed at once</span>
+        <select
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+          disabled={isLoading}
+          className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+        >
+          {concurrencyOptions.map(value => <option key={value} value={value}>{value}</option>)}
+        </select>
+      </label>
+
+      {pinnedOperation ? (
         <div className="flex flex-col gap-4 items-center">
-            <p className="text-center text-slate-600 dark:text-gray-400">Apply your pinned frame to all uploaded images.</p>
+            <p className="text-center text-slate-600 dark:text-gray-400">Apply your pinned edit to all uploaded images.</p>
             <div className="w-full bg-slate-200 dark:bg-black/20 p-4 rounded-lg border border-slate-300 dark:border-gray-700 text-sm">
-                <p className="font-bold text-slate-800 dark:text-gray-300">Pinned Frame:</p>
-                <p className="text-slate-600 dark:text-gray-400 break-words"><span className="font-semibold">Style:</span> {pinnedFrameStyle.style}</p>
-                {pinnedFrameStyle.topText && <p className="text-slate-600 dark:text-gray-400"><span className="font-semibold">Top Text:</span> {pinnedFrameStyle.topText}</p>}
-                {pinnedFrameStyle.bottomText && <p className="text-slate-600 dark:text-gray-400"><span className="font-semibold">Bottom Text:</span> {pinnedFrameStyle.bottomText}</p>}
+                <p className="font-bold text-slate-800 dark:text-gray-300">Pinned Edit:</p>
+                <p className="text-slate-600 dark:text-gray-400 break-words">{describeOperation(pinnedOperation)}</p>
+                {pinnedOperation.tool === 'frame' && pinnedOperation.frame.topText && <p className="text-slate-600 dark:text-gray-400"><span className="font-semibold">Top Text:</span> {pinnedOperation.frame.topText}</p>}
+                {pinnedOperation.tool === 'frame' && pinnedOperation.frame.bottomText && <p className="text-slate-600 dark:text-gray-400"><span className="font-semibold">Bottom Text:</span> {pinnedOperation.frame.bottomText}</p>}
             </div>
             <button
-                onClick={onApplyFrame}
+                onClick={onApplyPinned}
                 className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                 disabled={isLoading || !hasBatchFiles}
             >
@@ -36,10 +79,72 @@ const BatchPanel: React.FC<BatchPanelProps> = ({ onApplyFrame, isLoading, pinned
         </div>
       ) : (
         <div className="text-center text-slate-600 dark:text-gray-400 bg-slate-100 dark:bg-gray-900/50 p-4 rounded-md border border-slate-200 dark:border-gray-700">
-          <p>No frame style pinned.</p>
-          <p className="text-sm mt-1">Go to the <span className="font-bold text-blue-500 dark:text-blue-400">'Frame'</span> tool to create and pin a style for batch use.</p>
+          <p>Nothing pinned yet.</p>
+          <p className="text-sm mt-1">Use <span className="font-bold text-blue-500 dark:text-blue-400">'Pin for Batch Use'</span> in the Creative, Adjust, Replace, Crop or Frame tool to choose the edit to apply.</p>
+        </div>
+      )}
+
+      {recipe ? (
+        <div className="flex flex-col gap-4 items-center pt-4 border-t border-slate-200 dark:border-gray-700">
+            <p className="text-center text-slate-600 dark:text-gray-400">Run your loaded recipe on every uploaded image.</p>
+            <div className="w-full bg-slate-200 dark:bg-black/20 p-4 rounded-lg border border-slate-300 dark:border-gray-700 text-sm">
+                <p className="font-bold text-slate-800 dark:text-gray-300">Recipe:</p>
+                <p className="text-slate-600 dark:text-gray-400 break-words">{recipe.name} ({recipe.steps.length} {recipe.steps.length === 1 ? 'step' : 'steps'})</p>
+            </div>
+            <button
+                onClick={onApplyRecipe}
+                className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+                disabled={isLoading || !hasBatchFiles}
+            >
+                {isLoading ? 'Processing...' : 'Apply Recipe to All Images'}
+            </button>
+        </div>
+      ) : (
+        <p className="text-sm text-center text-slate-500 dark:text-gray-500">Load a recipe in the <span className="font-bold text-blue-500 dark:text-blue-400">'Recipe'</span> tool to replay a whole edit chain on every image.</p>
+      )}
+
+      {job && (
+        <div className="flex flex-col gap-3 pt-4 border-t border-slate-200 dark:border-gray-700">
+            <div className="flex items-baseline justify-between gap-2 text-sm">
+                <span className="font-semibold text-slate-800 dark:text-gray-300 truncate" title={job.name}>{job.name}</span>
+                <span className="text-slate-600 dark:text-gray-400 whitespace-nowrap">{finishedCount} / {job.items.length}</span>
+            </div>
+            <div className="w-full h-2 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={job.items.length} aria-valuenow={finishedCount}>
+                <div className={`h-full transition-all duration-300 ${runState === 'paused' ? 'bg-yellow-500' : 'bg-blue-500'}`} style={{ width: `${progress * 100}%` }} />
+            </div>
+            <p className="text-xs text-slate-500 dark:text-gray-500">
+                {doneCount} done · {failedCount} failed · {blockedCount} blocked · {pendingCount} pending{runState === 'paused' && ' · paused'}
+            </p>
+
+            {runState !== 'idle' ? (
+                <div className="flex gap-2">
+                    {runState === 'running'
+                        ? <button onClick={onPause} className={secondaryButtonClass}>Pause</button>
+                        : <button onClick={onResume} className={secondaryButtonClass}>Resume</button>}
+                    <button onClick={onCancel} className={secondaryButtonClass}>Cancel</button>
+                </div>
+            ) : (pendingCount > 0 || failedCount > 0) && (
+                <div className="flex gap-2">
+                    {pendingCount > 0 && <button onClick={onContinue} disabled={isEditorLoading} className={secondaryButtonClass}>Resume ({pendingCount})</button>}
+                    {failedCount > 0 && <button onClick={onRetryFailed} disabled={isEditorLoading} className={secondaryButtonClass}>Retry Failed ({failedCount})</button>}
+                </div>
+            )}
+
+            <button
+                onClick={onDownloadResults}
+                disabled={isEditorLoading || doneCount === 0}
+                className="w-full bg-green-600/80 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:bg-green-600/90 hover:-translate-y-px active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                Download Results ({doneCount}) as .zip
+            </button>
         </div>
       )}
+
+      {hasBatchFiles && (
+        <button onClick={onNewBatch} disabled={isLoading} className="text-center bg-transparent border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-200 dark:hover:bg-white/10 w-full disabled:opacity-50">
+            Select Different Images
+        </button>
+      )}
     </div>
   );
 };
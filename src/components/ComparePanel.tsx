@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { CompareMode } from './CompareView';
+
+export interface CompareOption {
+  id: string;
+  label: string;
+}
+
+interface ComparePanelProps {
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  options: CompareOption[];
+  beforeId: string | null;
+  afterId: string | null;
+  onBeforeChange: (id: string) => void;
+  onAfterChange: (id: string) => void;
+  onSwap: () => void;
+}
+
+const modes: { id: CompareMode; name: string; description: string }[] = [
+  { id: 'slider', name: 'Slider', description: 'Drag the divider across the image to wipe between the two versions.' },
+  { id: 'sideBySide', name: 'Side by Side', description: 'Both versions next to each other.' },
+  { id: 'onion', name: 'Onion Skin', description: 'The before version laid over the after one; use the slider under the image to fade between them.' },
+  { id: 'heatmap', name: 'Difference', description: 'Highlights every pixel that changed. Useful for spotting changes outside the area you asked to edit.' },
+];
+
+const selectClass = 'w-full bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-2 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ mode, onModeChange, options, beforeId, afterId, onBeforeChange, onAfterChange, onSwap }) => (
+  <div className="w-full flex flex-col gap-4 animate-fade-in">
+    <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200">Compare</h3>
+
+    <div className="grid grid-cols-2 gap-2">
+      {modes.map(({ id, name }) => (
+        <button
+          key={id}
+          onClick={() => onModeChange(id)}
+          className={`px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+            mode === id
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200'
+          }`}
+        >
+          {name}
+        </button>
+      ))}
+    </div>
+    <p className="text-sm text-slate-600 dark:text-gray-400">{modes.find(({ id }) => id === mode)?.description}</p>
+
+    <label className="flex flex-col gap-1 text-sm font-medium text-slate-600 dark:text-gray-400">
+      Before
+      <select value={beforeId ?? ''} onChange={(e) => onBeforeChange(e.target.value)} className={selectClass}>
+        {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+      </select>
+    </label>
+    <label className="flex flex-col gap-1 text-sm font-medium text-slate-600 dark:text-gray-400">
+      After
+      <select value={afterId ?? ''} onChange={(e) => onAfterChange(e.target.value)} className={selectClass}>
+        {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+      </select>
+    </label>
+    <button onClick={onSwap} className="text-center bg-transparent border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-2 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-200 dark:hover:bg-white/10 w-full">
+      Swap Before and After
+    </button>
+  </div>
+);
+
+export default ComparePanel;
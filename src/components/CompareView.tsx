@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import Spinner from './Spinner';
+import { createDiffHeatmap } from '../utils/imageDiff';
+
+export type CompareMode = 'slider' | 'sideBySide' | 'onion' | 'heatmap';
+
+interface CompareViewProps {
+  before: File;
+  after: File;
+  beforeLabel: string;
+  afterLabel: string;
+  mode: CompareMode;
+}
+
+const useObjectUrl = (file: Blob | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!file) { setUrl(null); return; }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url;
+};
+
+const imageClass = 'w-full h-auto object-contain max-h-[70vh] rounded-xl';
+
+const Label: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => (
+  <span className={`absolute top-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs font-semibold pointer-events-none z-10 ${className}`}>{text}</span>
+);
+
+// Shows two history entries against each other. Both images are fitted to the
+// same box, so entries of different sizes still line up edge to edge.
+const CompareView: React.FC<CompareViewProps> = ({ before, after, beforeLabel, afterLabel, mode }) => {
+  const beforeUrl = useObjectUrl(before);
+  const afterUrl = useObjectUrl(after);
+  const [split, setSplit] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [heatmap, setHeatmap] = useState<Blob | null>(null);
+  const [heatmapError, setHeatmapError] = useState<string | null>(null);
+  const heatmapUrl = useObjectUrl(heatmap);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDragging = useRef(false);
+
+  useEffect(() => {
+    if (mode !== 'heatmap') return;
+    let cancelled = false;
+    setHeatmap(null);
+    setHeatmapError(null);
+    createDiffHeatmap(before, after)
+      .then(blob => { if (!cancelled) setHeatmap(blob); })
+      .catch(err => { if (!cancelled) setHeatmapError(err instanceof Error ? err.message : 'Could not compare the images.'); });
+    return () => { cancelled = true; };
+  }, [before, after, mode]);
+
+  const moveSplit = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  if (!beforeUrl || !afterUrl) return null;
+
+  if (mode === 'sideBySide') {
+    return (
+      <div className="grid grid-cols-2 gap-2 w-full">
+        <div className="relative"><Label text={beforeLabel} className="left-2" /><img src={beforeUrl} alt="Before" className={imageClass} /></div>
+        <div className="relative"><Label text={afterLabel} className="left-2" /><img src={afterUrl} alt="After" className={imageClass} /></div>
+      </div>
+    );
+  }
+
+  if (mode === 'heatmap') {
+    return (
+      <div className="relative w-full flex flex-col items-center">
+        {heatmapUrl ? (
+          <>
+            <Label text={`Changes from ${beforeLabel} to ${afterLabel}`} className="left-2" />
+            <img src={heatmapUrl} alt="Difference heatmap" className={imageClass} />
+            <div className="flex items-center gap-2 text-xs text-slate-600 dark:text-gray-400 py-2">
+              <span>Unchanged</span>
+              <span className="w-32 h-2 rounded-full bg-gradient-to-r from-gray-500 via-yellow-400 to-red-600" />
+              <span>Changed</span>
+            </div>
+          </>
+        ) : heatmapError ? (
+          <p className="p-8 text-red-600 dark:text-red-400">{heatmapError}</p>
+        ) : (
+          <div className="p-16"><Spinner /></div>
+        )}
+      </div>
+    );
+  }
+
+  if (mode === 'onion') {
+    return (
+      <div className="w-full flex flex-col items-center gap-2">
+        <div className="relative w-full">
+          <img src={afterUrl} alt="After" className={imageClass} />
+          <img src={beforeUrl} alt="Before" className={`absolute inset-0 ${imageClass}`} style={{ opacity: opacity / 100 }} />
+        </div>
+        <label className="flex items-center gap-3 text-xs text-slate-600 dark:text-gray-400 w-full max-w-md pb-2">
+          <span className="whitespace-nowrap">{afterLabel}</span>
+          <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="flex-grow" aria-label="Before opacity" />
+          <span className="whitespace-nowrap">{beforeLabel}</span>
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full select-none cursor-ew-resize touch-none"
+      onPointerDown={(e) => { isDragging.current = true; e.currentTarget.setPointerCapture(e.pointerId); moveSplit(e.clientX); }}
+      onPointerMove={(e) => { if (isDragging.current) moveSplit(e.clientX); }}
+      onPointerUp={() => { isDragging.current = false; }}
+      onPointerCancel={() => { isDragging.current = false; }}
+    >
+      <img src={afterUrl} alt="After" className={`${imageClass} pointer-events-none`} draggable={false} />
+      <img src={beforeUrl} alt="Before" className={`absolute inset-0 ${imageClass} pointer-events-none`} style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }} draggable={false} />
+      <Label text={beforeLabel} className="left-2" />
+      <Label text={afterLabel} className="right-2" />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] pointer-events-none" style={{ left: `${split}%` }}>
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-slate-700 text-sm font-bold">⇔</div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
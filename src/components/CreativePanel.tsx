@@ -4,13 +4,16 @@
 */
 
 import React, { useState } from 'react';
+import PinButton from './PinButton';
 
 interface CreativePanelProps {
   onApplyStyle: (prompt: string) => void;
+  onPin: (prompt: string | null) => void;
+  pinnedPrompt: string | null;
   isLoading: boolean;
 }
 
-const CreativePanel: React.FC<CreativePanelProps> = ({ onApplyStyle, isLoading }) => {
+const CreativePanel: React.FC<CreativePanelProps> = ({ onApplyStyle, onPin, pinnedPrompt, isLoading }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
 
@@ -75,6 +78,11 @@ const CreativePanel: React.FC<CreativePanelProps> = ({ onApplyStyle, isLoading }
           >
             Apply Style
           </button>
+          <PinButton
+            isPinned={pinnedPrompt === activePrompt}
+            onClick={() => onPin(pinnedPrompt === activePrompt ? null : activePrompt)}
+            disabled={isLoading || !activePrompt.trim()}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+export type CropGuide = 'none' | 'thirds' | 'golden';
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// Where the guide lines cross the selection, as fractions of its width and height.
+const guideLines: Record<Exclude<CropGuide, 'none'>, number[]> = {
+  thirds: [1 / 3, 2 / 3],
+  golden: [1 - 1 / PHI, 1 / PHI],
+};
+
+// Composition guides drawn inside the crop selection.
+const CropGuides: React.FC<{ guide: CropGuide }> = ({ guide }) => {
+  if (guide === 'none') return null;
+  const lines = guideLines[guide].flatMap(fraction => [
+    { x1: fraction * 100, y1: 0, x2: fraction * 100, y2: 100 },
+    { x1: 0, y1: fraction * 100, x2: 100, y2: fraction * 100 },
+  ]);
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+      {lines.map((line, index) => (
+        <React.Fragment key={index}>
+          <line {...line} stroke="black" strokeOpacity={0.35} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          <line {...line} stroke="white" strokeOpacity={0.8} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        </React.Fragment>
+      ))}
+    </svg>
+  );
+};
+
+export default CropGuides;
@@ -4,60 +4,200 @@
 */
 
 import React, { useState } from 'react';
+import PinButton from './PinButton';
+import type { CropGuide } from './CropGuides';
+import { MAX_STRAIGHTEN_ANGLE, NEUTRAL_TRANSFORM, isNeutralTransform } from '../utils/imageTransform';
+import type { ImageTransform } from '../types';
+
+type Rect = { x: number; y: number; width: number; height: number };
 
 interface CropPanelProps {
   onApplyCrop: () => void;
   onSetAspect: (aspect: number | undefined) => void;
+  // Batch jobs crop every image around the center at a fixed aspect ratio.
+  onPinAspect: (aspect: { value: number; label: string } | null) => void;
+  pinnedAspectLabel: string | null;
+  // The selection in image pixels, and the size of the image it is drawn on.
+  imageSize: { width: number; height: number } | null;
+  selection: Rect | null;
+  onSelectionChange: (selection: Rect) => void;
+  // Mirroring and straightening, previewed on the image and applied with the crop.
+  transform: ImageTransform;
+  onTransformChange: (transform: ImageTransform) => void;
+  onAutoStraighten: () => void;
+  // Quarter turns are applied straight away, as their own history step.
+  onRotate: (quarterTurns: 1 | 3) => void;
+  guide: CropGuide;
+  onGuideChange: (guide: CropGuide) => void;
   isLoading: boolean;
   isCropping: boolean;
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+const aspects: { name: string, value: number | undefined }[] = [
+  { name: 'free', value: undefined },
+  { name: '1:1', value: 1 / 1 },
+  { name: '4:5', value: 4 / 5 },
+  { name: '3:2', value: 3 / 2 },
+  { name: '16:9', value: 16 / 9 },
+  { name: '9:16', value: 9 / 16 },
+  { name: 'custom', value: undefined },
+];
+
+const guides: { id: CropGuide; label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'thirds', label: 'Thirds' },
+  { id: 'golden', label: 'Golden Ratio' },
+];
+
+const optionClass = (isActive: boolean) => `px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+  isActive
+  ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+  : 'bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200'
+}`;
+
+const inputClass = 'bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:opacity-50';
+
+// Keeps a typed-in selection inside the image and, with a locked ratio, at that ratio.
+// `keep` says which side was typed, so the other one follows it.
+const constrainSelection = (rect: Rect, bounds: { width: number; height: number }, aspect: number | undefined, keep: 'width' | 'height'): Rect => {
+  let width = Math.min(bounds.width, Math.max(1, Math.round(rect.width)));
+  let height = Math.min(bounds.height, Math.max(1, Math.round(rect.height)));
+  if (aspect) {
+    if (keep === 'width') height = Math.round(width / aspect);
+    else width = Math.round(height * aspect);
+    const scale = Math.min(1, bounds.width / width, bounds.height / height);
+    width = Math.max(1, Math.floor(width * scale));
+    height = Math.max(1, Math.floor(height * scale));
+  }
+  return {
+    x: Math.min(bounds.width - width, Math.max(0, Math.round(rect.x))),
+    y: Math.min(bounds.height - height, Math.max(0, Math.round(rect.y))),
+    width,
+    height,
+  };
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, onPinAspect, pinnedAspectLabel, imageSize, selection, onSelectionChange, transform, onTransformChange, onAutoStraighten, onRotate, guide, onGuideChange, isLoading, isCropping }) => {
+  const [activeAspect, setActiveAspect] = useState('free');
+  const [customWidth, setCustomWidth] = useState('5');
+  const [customHeight, setCustomHeight] = useState('4');
+
+  const customValue = Number(customWidth) > 0 && Number(customHeight) > 0 ? Number(customWidth) / Number(customHeight) : undefined;
+  const activeAspectValue = activeAspect === 'custom' ? customValue : aspects.find(({ name }) => name === activeAspect)?.value;
+  const activeAspectLabel = activeAspect === 'custom' ? `${customWidth}:${customHeight}` : activeAspect;
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
-  const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
+  // A new ratio reshapes an existing selection around its center.
+  const applyAspect = (value: number | undefined) => {
     onSetAspect(value);
+    if (!value || !selection || !imageSize) return;
+    const width = selection.width / selection.height > value ? selection.height * value : selection.width;
+    const height = width / value;
+    onSelectionChange(constrainSelection({ x: selection.x + (selection.width - width) / 2, y: selection.y + (selection.height - height) / 2, width, height }, imageSize, value, 'width'));
+  };
+
+  const handleAspectChange = (name: string) => {
+    setActiveAspect(name);
+    applyAspect(name === 'custom' ? customValue : aspects.find(aspect => aspect.name === name)?.value);
   }
 
-  const aspects: { name: AspectRatio, value: number | undefined }[] = [
-    { name: 'free', value: undefined },
-    { name: '1:1', value: 1 / 1 },
-    { name: '16:9', value: 16 / 9 },
-  ];
+  const handleCustomChange = (width: string, height: string) => {
+    setCustomWidth(width);
+    setCustomHeight(height);
+    applyAspect(Number(width) > 0 && Number(height) > 0 ? Number(width) / Number(height) : undefined);
+  };
+
+  const handleFieldChange = (key: keyof Rect, value: string) => {
+    const number = Number(value);
+    if (!imageSize || value === '' || !Number.isFinite(number)) return;
+    const base = selection ?? { x: 0, y: 0, ...imageSize };
+    onSelectionChange(constrainSelection({ ...base, [key]: number }, imageSize, activeAspectValue, key === 'height' ? 'height' : 'width'));
+  };
+
+  const canApply = isCropping || !isNeutralTransform(transform);
 
   return (
     <div className="w-full bg-slate-100/50 dark:bg-gray-800/50 border border-slate-200 dark:border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-slate-800 dark:text-gray-300">Crop Image</h3>
-      <p className="text-sm text-slate-600 dark:text-gray-400 -mt-2">Click and drag on the image to select a crop area.</p>
-      
-      <div className="flex items-center gap-2">
-        <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Aspect Ratio:</span>
-        {aspects.map(({ name, value }) => (
-          <button
-            key={name}
-            onClick={() => handleAspectChange(name, value)}
-            disabled={isLoading}
-            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' 
-              : 'bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200'
-            }`}
-          >
-            {name}
-          </button>
+      <p className="text-sm text-slate-600 dark:text-gray-400 -mt-2">Click and drag on the image to select a crop area, or type exact values.</p>
+
+      <div className="w-full flex flex-col gap-2">
+        <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Aspect Ratio</span>
+        <div className="flex flex-wrap gap-2">
+          {aspects.map(({ name }) => (
+            <button key={name} onClick={() => handleAspectChange(name)} disabled={isLoading} className={optionClass(activeAspect === name)}>
+              {name}
+            </button>
+          ))}
+        </div>
+        {activeAspect === 'custom' && (
+          <div className="flex items-center gap-2">
+            <input type="number" min={1} value={customWidth} onChange={(e) => handleCustomChange(e.target.value, customHeight)} disabled={isLoading} className={inputClass} aria-label="Custom ratio width" />
+            <span className="text-slate-500 dark:text-gray-400 font-semibold">:</span>
+            <input type="number" min={1} value={customHeight} onChange={(e) => handleCustomChange(customWidth, e.target.value)} disabled={isLoading} className={inputClass} aria-label="Custom ratio height" />
+          </div>
+        )}
+      </div>
+
+      <div className="w-full grid grid-cols-4 gap-2">
+        {(['x', 'y', 'width', 'height'] as const).map(key => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-slate-600 dark:text-gray-400">{key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()} (px)</span>
+            <input
+              type="number"
+              min={0}
+              value={selection ? selection[key] : ''}
+              placeholder={imageSize ? String({ x: 0, y: 0, ...imageSize }[key]) : ''}
+              onChange={(e) => handleFieldChange(key, e.target.value)}
+              disabled={isLoading || !imageSize}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="w-full flex flex-col gap-2">
+        <label className="flex flex-col gap-1" onDoubleClick={() => onTransformChange({ ...transform, angle: 0 })} title="Double-click to reset">
+          <span className="flex justify-between text-sm font-medium text-slate-600 dark:text-gray-400">
+            <span>Straighten</span>
+            <span className="tabular-nums">{transform.angle > 0 ? '+' : ''}{transform.angle.toFixed(1)}°</span>
+          </span>
+          <input type="range" min={-MAX_STRAIGHTEN_ANGLE} max={MAX_STRAIGHTEN_ANGLE} step={0.1} value={transform.angle} onChange={(e) => onTransformChange({ ...transform, angle: Number(e.target.value) })} disabled={isLoading} className="w-full accent-blue-500" />
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={onAutoStraighten} disabled={isLoading} className={optionClass(false)}>Auto Straighten</button>
+          <button onClick={() => onTransformChange(NEUTRAL_TRANSFORM)} disabled={isLoading || isNeutralTransform(transform)} className={optionClass(false)}>Reset</button>
+          <button onClick={() => onTransformChange({ ...transform, flipHorizontal: !transform.flipHorizontal })} disabled={isLoading} className={optionClass(transform.flipHorizontal)} aria-pressed={transform.flipHorizontal}>Flip Horizontal</button>
+          <button onClick={() => onTransformChange({ ...transform, flipVertical: !transform.flipVertical })} disabled={isLoading} className={optionClass(transform.flipVertical)} aria-pressed={transform.flipVertical}>Flip Vertical</button>
+          <button onClick={() => onRotate(3)} disabled={isLoading} className={optionClass(false)}>Rotate Left 90°</button>
+          <button onClick={() => onRotate(1)} disabled={isLoading} className={optionClass(false)}>Rotate Right 90°</button>
+        </div>
+      </div>
+
+      <div className="w-full flex items-center gap-2">
+        <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Guides:</span>
+        {guides.map(({ id, label }) => (
+          <button key={id} onClick={() => onGuideChange(id)} disabled={isLoading} className={optionClass(guide === id)}>{label}</button>
         ))}
       </div>
 
       <button
         onClick={onApplyCrop}
-        disabled={isLoading || !isCropping}
+        disabled={isLoading || !canApply}
         className="w-full max-w-xs mt-2 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
       >
         Apply Crop
       </button>
+
+      {activeAspectValue !== undefined && (
+        <div className="w-full max-w-xs">
+          <PinButton
+            isPinned={pinnedAspectLabel === activeAspectLabel}
+            onClick={() => onPinAspect(pinnedAspectLabel === activeAspectLabel ? null : { value: activeAspectValue, label: activeAspectLabel })}
+            disabled={isLoading}
+            label={`Pin ${activeAspectLabel} Center Crop for Batch`}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { LEVELS_GAMMA_RANGE, NEUTRAL_LEVELS, sampleToneCurve } from '../utils/toneAdjust';
+import type { Histogram } from '../utils/histogram';
+import type { ToneAdjustments } from '../types';
+
+type CurvePoint = ToneAdjustments['curve'][number];
+type Levels = NonNullable<ToneAdjustments['levels']>;
+
+interface CurvesEditorProps {
+  curve: CurvePoint[];
+  levels: Levels;
+  histogram: Histogram | null;
+  disabled: boolean;
+  onCurveChange: (curve: CurvePoint[]) => void;
+  onLevelsChange: (levels: Levels) => void;
+}
+
+// How close (as a fraction of the graph) a press must be to grab an existing point.
+const GRAB_DISTANCE = 0.05;
+// Points keep at least this far apart, and away from the fixed ends.
+const MIN_GAP = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const histogramPath = (histogram: Histogram) => {
+  let peak = 1;
+  for (let level = 1; level < 255; level++) peak = Math.max(peak, histogram.luma[level]);
+  const heights = Array.from(histogram.luma, count => 100 * (1 - Math.min(1, count / peak)));
+  return `M0,100 ${heights.map((height, level) => `L${(level / 255 * 100).toFixed(2)},${height.toFixed(1)}`).join(' ')} L100,100 Z`;
+};
+
+// Tone curve over the image's histogram: click to add a point, drag to move it,
+// double-click to remove it. Input levels sit underneath.
+const CurvesEditor: React.FC<CurvesEditorProps> = ({ curve, levels, histogram, disabled, onCurveChange, onLevelsChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const points = [...curve].sort((a, b) => a.x - b.x);
+  const samples = sampleToneCurve(points);
+
+  const toGraph = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width, 0, 1), y: clamp(1 - (e.clientY - rect.top) / rect.height, 0, 1) };
+  };
+
+  const findPoint = (position: CurvePoint) => points.findIndex(point => Math.hypot(point.x - position.x, point.y - position.y) < GRAB_DISTANCE);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled || e.button !== 0) return;
+    const position = toGraph(e);
+    let index = findPoint(position);
+    if (index === -1) {
+      if (position.x < MIN_GAP || position.x > 1 - MIN_GAP || points.some(point => Math.abs(point.x - position.x) < MIN_GAP)) return;
+      const next = [...points, position].sort((a, b) => a.x - b.x);
+      index = next.indexOf(position);
+      onCurveChange(next);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const position = toGraph(e);
+    // A point can't pass its neighbors, so the order of the points never changes while dragging.
+    const minX = (points[dragIndex - 1]?.x ?? 0) + MIN_GAP;
+    const maxX = (points[dragIndex + 1]?.x ?? 1) - MIN_GAP;
+    onCurveChange(points.map((point, index) => index === dragIndex ? { x: clamp(position.x, minX, maxX), y: position.y } : point));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragIndex(null);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const index = findPoint(toGraph(e));
+    if (index !== -1) onCurveChange(points.filter((_, i) => i !== index));
+  };
+
+  // The gamma slider runs on a log scale, so 1 sits in the middle.
+  const gammaSlider = Math.log10(levels.gamma);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <svg
+        ref={svgRef}
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        className={`w-full aspect-square bg-slate-900/90 rounded-md touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        role="img"
+        aria-label="Tone curve"
+      >
+        {histogram && <path d={histogramPath(histogram)} className="fill-slate-500/40" />}
+        {[25, 50, 75].map(line => (
+          <React.Fragment key={line}>
+            <line x1={line} y1={0} x2={line} y2={100} stroke="white" strokeOpacity={0.1} vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={line} x2={100} y2={line} stroke="white" strokeOpacity={0.1} vectorEffect="non-scaling-stroke" />
+          </React.Fragment>
+        ))}
+        <line x1={0} y1={100} x2={100} y2={0} stroke="white" strokeOpacity={0.25} strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        {levels.black > 0 && <line x1={levels.black * 100} y1={0} x2={levels.black * 100} y2={100} stroke="rgb(96 165 250)" vectorEffect="non-scaling-stroke" />}
+        {levels.white < 1 && <line x1={levels.white * 100} y1={0} x2={levels.white * 100} y2={100} stroke="rgb(96 165 250)" vectorEffect="non-scaling-stroke" />}
+        <polyline points={Array.from(samples, (y, level) => `${(level / 255 * 100).toFixed(2)},${(100 - y * 100).toFixed(2)}`).join(' ')} fill="none" stroke="white" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map((point, index) => (
+          <circle key={index} cx={point.x * 100} cy={100 - point.y * 100} r={2.2} className={index === dragIndex ? 'fill-blue-400' : 'fill-white'} stroke="rgb(15 23 42)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+
+      <div className="flex flex-col gap-2">
+        <span className="text-sm font-semibold text-slate-700 dark:text-gray-300">Levels</span>
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between text-sm font-medium text-slate-600 dark:text-gray-400"><span>Black point</span><span className="tabular-nums">{Math.round(levels.black * 255)}</span></span>
+          <input type="range" min={0} max={254} value={Math.round(levels.black * 255)} onChange={(e) => onLevelsChange({ ...levels, black: Math.min(Number(e.target.value) / 255, levels.white - 1 / 255) })} disabled={disabled} className="w-full accent-blue-500" />
+        </label>
+        <label className="flex flex-col gap-1" onDoubleClick={() => onLevelsChange({ ...levels, gamma: NEUTRAL_LEVELS.gamma })} title="Double-click to reset">
+          <span className="flex justify-between text-sm font-medium text-slate-600 dark:text-gray-400"><span>Midtones (gamma)</span><span className="tabular-nums">{levels.gamma.toFixed(2)}</span></span>
+          <input type="range" min={Math.log10(LEVELS_GAMMA_RANGE.min)} max={Math.log10(LEVELS_GAMMA_RANGE.max)} step={0.01} value={gammaSlider} onChange={(e) => onLevelsChange({ ...levels, gamma: Number(Math.pow(10, Number(e.target.value)).toFixed(2)) })} disabled={disabled} className="w-full accent-blue-500" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between text-sm font-medium text-slate-600 dark:text-gray-400"><span>White point</span><span className="tabular-nums">{Math.round(levels.white * 255)}</span></span>
+          <input type="range" min={1} max={255} value={Math.round(levels.white * 255)} onChange={(e) => onLevelsChange({ ...levels, white: Math.max(Number(e.target.value) / 255, levels.black + 1 / 255) })} disabled={disabled} className="w-full accent-blue-500" />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default CurvesEditor;
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { clearModelCalls, getModelCalls, modelCallToJson, subscribeToModelCalls, type ModelCall } from '../services/callLog';
+
+interface DebugModalProps {
+  onClose: () => void;
+}
+
+const statusClass: Record<ModelCall['status'], string> = {
+  running: 'bg-blue-500/20 text-blue-600 dark:text-blue-300',
+  succeeded: 'bg-green-500/20 text-green-700 dark:text-green-300',
+  failed: 'bg-red-500/20 text-red-600 dark:text-red-300',
+  cancelled: 'bg-slate-500/20 text-slate-600 dark:text-gray-300',
+};
+
+const formatBytes = (bytes: number) => bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="flex flex-col gap-1">
+    <h4 className="text-xs font-bold uppercase tracking-wide text-slate-500 dark:text-gray-500">{title}</h4>
+    {children}
+  </section>
+);
+
+const preClass = 'text-xs whitespace-pre-wrap break-words bg-slate-100 dark:bg-black/30 rounded-md p-2 text-slate-800 dark:text-gray-200 max-h-64 overflow-y-auto';
+
+const CallDetails: React.FC<{ call: ModelCall }> = ({ call }) => (
+  <div className="flex flex-col gap-4">
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Provider</dt><dd className="text-slate-800 dark:text-gray-200">{call.provider}</dd>
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Model</dt><dd className="text-slate-800 dark:text-gray-200">{call.model}</dd>
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Operation</dt><dd className="text-slate-800 dark:text-gray-200">{call.operation}</dd>
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Started</dt><dd className="text-slate-800 dark:text-gray-200">{new Date(call.startedAt).toLocaleTimeString()}</dd>
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Latency</dt><dd className="text-slate-800 dark:text-gray-200">{call.durationMs !== undefined ? `${(call.durationMs / 1000).toFixed(2)}s` : '—'}</dd>
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Prompt template</dt><dd className="text-slate-800 dark:text-gray-200">{call.template ? `${call.template.templateId} · ${call.template.variantName} v${call.template.version}` : '—'}</dd>
+      <dt className="font-semibold text-slate-500 dark:text-gray-400">Finish reason</dt><dd className="text-slate-800 dark:text-gray-200">{call.finishReason ?? '—'}</dd>
+    </dl>
+    {call.error && <Section title="Error"><pre className={`${preClass} text-red-600 dark:text-red-300`}>{call.error}</pre></Section>}
+    <Section title="Prompt">
+      <pre className={preClass}>{call.prompt}</pre>
+    </Section>
+    <Section title={`Image parts (${call.parts.length})`}>
+      <ul className="text-xs text-slate-700 dark:text-gray-300 flex flex-col gap-0.5">
+        {call.parts.map((part, index) => (
+          <li key={index}>
+            <span className="font-semibold">{part.role}</span> · {part.name || 'unnamed'} · {part.mimeType || 'unknown type'} · {formatBytes(part.bytes)}
+            {part.width !== undefined && ` · ${part.width}×${part.height}px`}
+          </li>
+        ))}
+      </ul>
+    </Section>
+    {call.promptFeedback !== undefined && (
+      <Section title="Prompt feedback">
+        <pre className={preClass}>{JSON.stringify(call.promptFeedback, null, 2)}</pre>
+      </Section>
+    )}
+    {!!call.textParts?.length && (
+      <Section title="Text returned">
+        {call.textParts.map((text, index) => <pre key={index} className={preClass}>{text}</pre>)}
+      </Section>
+    )}
+    {call.outputImage && (
+      <Section title="Output image">
+        <img src={call.outputImage} alt="Model output" className="max-h-64 self-start rounded-md border border-slate-200 dark:border-gray-700" />
+      </Section>
+    )}
+  </div>
+);
+
+// Developer view of every model call made in this tab, with everything that was sent and received.
+const DebugModal: React.FC<DebugModalProps> = ({ onClose }) => {
+  const calls = useSyncExternalStore(subscribeToModelCalls, getModelCalls);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [copied, setCopied] = useState<'call' | 'all' | null>(null);
+  const selected = calls.find(call => call.id === selectedId) ?? calls[0];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const copy = async (which: 'call' | 'all') => {
+    const payload = which === 'call' ? modelCallToJson(selected) : calls.map(modelCallToJson);
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(payload, null, 2));
+      setCopied(which);
+      setTimeout(() => setCopied(current => current === which ? null : current), 2000);
+    } catch (err) {
+      console.error('Could not copy to the clipboard.', err);
+    }
+  };
+
+  const buttonClass = 'py-1.5 px-3 rounded-md text-sm font-semibold bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-6xl h-[85vh] bg-white dark:bg-gray-900 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl flex flex-col overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="debug-modal-title"
+      >
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-slate-200 dark:border-gray-700">
+          <h2 id="debug-modal-title" className="text-lg font-bold text-slate-800 dark:text-gray-100">Model Calls ({calls.length})</h2>
+          <div className="flex gap-2">
+            <button onClick={() => copy('call')} disabled={!selected} className={buttonClass}>{copied === 'call' ? 'Copied ✓' : 'Copy as JSON'}</button>
+            <button onClick={() => copy('all')} disabled={calls.length === 0} className={buttonClass}>{copied === 'all' ? 'Copied ✓' : 'Copy All'}</button>
+            <button onClick={clearModelCalls} disabled={calls.length === 0} className={buttonClass}>Clear</button>
+            <button onClick={onClose} className={buttonClass} aria-label="Close">✕</button>
+          </div>
+        </div>
+        {calls.length === 0 ? (
+          <p className="flex-grow flex items-center justify-center text-slate-500 dark:text-gray-400">No model calls yet. They appear here as soon as an edit is generated.</p>
+        ) : (
+          <div className="flex-grow flex min-h-0">
+            <ul className="w-72 flex-shrink-0 border-r border-slate-200 dark:border-gray-700 overflow-y-auto">
+              {calls.map(call => (
+                <li key={call.id}>
+                  <button
+                    onClick={() => setSelectedId(call.id)}
+                    className={`w-full text-left px-4 py-2 border-b border-slate-100 dark:border-gray-800 flex flex-col gap-1 transition-colors ${call.id === selected?.id ? 'bg-blue-500/10' : 'hover:bg-slate-100 dark:hover:bg-white/5'}`}
+                  >
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-sm text-slate-800 dark:text-gray-100">{call.operation}</span>
+                      <span className={`text-xs font-semibold px-1.5 py-0.5 rounded ${statusClass[call.status]}`}>{call.status}</span>
+                    </span>
+                    <span className="text-xs text-slate-500 dark:text-gray-400">
+                      {new Date(call.startedAt).toLocaleTimeString()}{call.durationMs !== undefined && ` · ${(call.durationMs / 1000).toFixed(1)}s`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex-grow p-4 overflow-y-auto">
+              {selected && <CallDetails call={selected} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebugModal;
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { DiscardedVariant } from '../services/variants';
+
+const DiscardedThumbnail: React.FC<{ variant: DiscardedVariant; onRestore: () => void; disabled: boolean; }> = ({ variant, onRestore, disabled }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(variant.file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [variant.file]);
+
+  return (
+    <div className="relative flex-shrink-0 w-24 h-24 rounded-md overflow-hidden" title={variant.meta.prompt}>
+      {url && <img src={url} alt="Discarded variant" className="w-full h-full object-cover opacity-60" />}
+      <button onClick={onRestore} disabled={disabled} className="absolute bottom-1 left-1 right-1 px-1 py-0.5 rounded bg-black/60 hover:bg-black/80 text-white text-xs font-semibold transition-colors disabled:opacity-50">
+        Restore
+      </button>
+    </div>
+  );
+};
+
+interface DiscardedTrayProps {
+  variants: DiscardedVariant[];
+  onRestore: (id: string) => void;
+  onClear: () => void;
+  disabled: boolean;
+}
+
+// Variants that were not kept, most recent first, so a rejected result is never lost by accident.
+const DiscardedTray: React.FC<DiscardedTrayProps> = ({ variants, onRestore, onClear, disabled }) => (
+  <div className="w-full max-w-5xl">
+    <div className="flex items-center justify-between mb-2 px-2">
+      <h3 className="text-sm font-bold text-slate-500 dark:text-gray-400">Discarded ({variants.length})</h3>
+      <button onClick={onClear} disabled={disabled} className="text-xs text-slate-500 dark:text-gray-400 hover:text-slate-800 dark:hover:text-gray-200 transition-colors disabled:opacity-50">Empty tray</button>
+    </div>
+    <div className="flex gap-2 overflow-x-auto p-2 bg-slate-100 dark:bg-black/20 rounded-lg">
+      {variants.map(variant => (
+        <DiscardedThumbnail key={variant.id} variant={variant} onRestore={() => onRestore(variant.id)} disabled={disabled} />
+      ))}
+    </div>
+  </div>
+);
+
+export default DiscardedTray;
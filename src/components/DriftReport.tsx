@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface DriftReportProps {
+  drift: { score: number; restored: boolean };
+  isOverlayVisible: boolean;
+  onToggleOverlay: () => void;
+}
+
+// Above this share of changed pixels outside the edit, the result is flagged.
+const WARNING_SCORE = 0.02;
+
+// How much a retouch changed the image away from the area it was asked to edit.
+const DriftReport: React.FC<DriftReportProps> = ({ drift, isOverlayVisible, onToggleOverlay }) => {
+  const percent = (drift.score * 100).toFixed(1);
+  const isHigh = drift.score > WARNING_SCORE;
+
+  return (
+    <div className={`w-full max-w-5xl flex items-center justify-between gap-4 px-4 py-2 rounded-lg border text-sm ${isHigh && !drift.restored ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-700 dark:text-yellow-300' : 'bg-slate-100 dark:bg-black/20 border-slate-200 dark:border-gray-700 text-slate-600 dark:text-gray-400'}`}>
+      <p>
+        <span className="font-semibold">Drift check:</span> the model changed {percent}% of the area outside your edit.
+        {drift.restored ? ' The original pixels were restored there.' : isHigh ? ' Compare carefully, or retry with "Restore untouched areas" on.' : ''}
+      </p>
+      <button onClick={onToggleOverlay} className="whitespace-nowrap font-semibold px-3 py-1 rounded-md bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200 transition-colors">
+        {isOverlayVisible ? 'Hide Overlay' : 'Show Overlay'}
+      </button>
+    </div>
+  );
+};
+
+export default DriftReport;
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+
+interface EditorCanvasProps {
+  // Natural size of the image being edited; everything inside is laid out in these pixels.
+  contentWidth: number | null;
+  contentHeight: number | null;
+  // Whether a plain left-button drag pans. Tools that drag themselves (painting, cropping)
+  // turn this off; panning then needs the middle button or a held space bar.
+  panWithLeftDrag: boolean;
+  // Called for clicks that were not the end of a pan, with the point in image pixels.
+  onContentClick?: (point: { x: number, y: number }) => void;
+  minimapUrl?: string | null;
+  // Rendered inside the zoomed stage. Receives the zoom so markers can keep a constant screen size.
+  children: (zoom: number) => React.ReactNode;
+}
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+// Pointer travel, in screen pixels, below which a press counts as a click rather than a pan.
+const CLICK_TOLERANCE = 4;
+
+const controlClass = 'px-2 py-1 rounded-md text-xs font-semibold bg-black/60 hover:bg-black/80 text-white transition-colors';
+
+// Zoomable, pannable viewport for the image being edited. Children are placed in
+// image pixel coordinates inside a single transformed stage, so hotspots, masks
+// and crop selections scale together with the image and never drift out of line.
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ contentWidth, contentHeight, panWithLeftDrag, onContentClick, minimapUrl, children }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 });
+  // While true the view follows the viewport size; any manual zoom or pan turns it off.
+  const [isFitted, setIsFitted] = useState(true);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const isPointerOver = useRef(false);
+  const drag = useRef<{ pointerId: number; startX: number; startY: number; viewX: number; viewY: number; moved: boolean; isPan: boolean } | null>(null);
+
+  const hasContent = !!contentWidth && !!contentHeight;
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(([entry]) => setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keeps the image from being panned out of sight, and centers it when it is smaller than the viewport.
+  const clampView = useCallback((next: View): View => {
+    if (!contentWidth || !contentHeight) return next;
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next.zoom));
+    const width = contentWidth * zoom;
+    const height = contentHeight * zoom;
+    const clampAxis = (offset: number, size: number, viewportLength: number) => size <= viewportLength
+      ? (viewportLength - size) / 2
+      : Math.min(0, Math.max(viewportLength - size, offset));
+    return { zoom, x: clampAxis(next.x, width, viewportSize.width), y: clampAxis(next.y, height, viewportSize.height) };
+  }, [contentWidth, contentHeight, viewportSize]);
+
+  const fitZoom = hasContent && viewportSize.width > 0
+    ? Math.min(1, viewportSize.width / contentWidth!, viewportSize.height / contentHeight!)
+    : 1;
+
+  // Zooms while keeping the image point under the anchor (in viewport pixels) in place.
+  const zoomAround = useCallback((getZoom: (current: number) => number, anchorX: number, anchorY: number) => {
+    setIsFitted(false);
+    setView(current => {
+      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, getZoom(current.zoom)));
+      const ratio = next / current.zoom;
+      return clampView({ zoom: next, x: anchorX - (anchorX - current.x) * ratio, y: anchorY - (anchorY - current.y) * ratio });
+    });
+  }, [clampView]);
+
+  useEffect(() => {
+    if (isFitted) setView(clampView({ zoom: fitZoom, x: 0, y: 0 }));
+  }, [isFitted, fitZoom, clampView]);
+
+  // A new image starts fitted to the viewport.
+  useEffect(() => {
+    setIsFitted(true);
+  }, [contentWidth, contentHeight]);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAround(zoom => zoom * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAround]);
+
+  // Space pans only while the pointer is over the viewport or focus is inside it, and never
+  // takes the key from a focused control, which needs it to press or toggle.
+  useEffect(() => {
+    const isInteractive = (target: EventTarget | null) => target instanceof HTMLElement
+      && (target.isContentEditable || !!target.closest('input, textarea, select, button, a[href], [role="button"], [role="checkbox"], [role="radio"], [role="switch"], [role="slider"]'));
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isInteractive(e.target)) return;
+      const viewport = viewportRef.current;
+      if (!isPointerOver.current && !(viewport && e.target instanceof Node && viewport.contains(e.target))) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const toContentPoint = (clientX: number, clientY: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect || !contentWidth || !contentHeight) return null;
+    const x = (clientX - rect.left - view.x) / view.zoom;
+    const y = (clientY - rect.top - view.y) / view.zoom;
+    return x >= 0 && y >= 0 && x <= contentWidth && y <= contentHeight ? { x, y } : null;
+  };
+
+  // Runs in the capture phase so a pan gesture can be taken away from a tool's own drag handling.
+  // Elements marked with data-canvas-control (controls, draggable markers) handle their own pointer events.
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.target instanceof Element && e.target.closest('[data-canvas-control]')) return;
+    const isPan = e.button === 1 || (e.button === 0 && isSpaceHeld);
+    if (!isPan && !(e.button === 0 && panWithLeftDrag)) return;
+    if (isPan) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, viewX: view.x, viewY: view.y, moved: false, isPan };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current || current.pointerId !== e.pointerId) return;
+    const dx = e.clientX - current.startX;
+    const dy = e.clientY - current.startY;
+    if (!current.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return;
+    current.moved = true;
+    setIsFitted(false);
+    setView(v => clampView({ ...v, x: current.viewX + dx, y: current.viewY + dy }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current || current.pointerId !== e.pointerId) return;
+    drag.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    if (current.moved || current.isPan || !onContentClick) return;
+    const point = toContentPoint(e.clientX, e.clientY);
+    if (point) onContentClick(point);
+  };
+
+  const zoomToCenter = (getZoom: (current: number) => number) => zoomAround(getZoom, viewportSize.width / 2, viewportSize.height / 2);
+
+  // Recenters the view on the point of the minimap under the pointer.
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    if (!contentWidth || !contentHeight) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * contentWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * contentHeight;
+    setIsFitted(false);
+    setView(v => clampView({ ...v, x: viewportSize.width / 2 - x * v.zoom, y: viewportSize.height / 2 - y * v.zoom }));
+  };
+
+  const isZoomedIn = hasContent && (contentWidth! * view.zoom > viewportSize.width + 1 || contentHeight! * view.zoom > viewportSize.height + 1);
+  const visibleRect = hasContent ? {
+    left: Math.max(0, -view.x / view.zoom / contentWidth!),
+    top: Math.max(0, -view.y / view.zoom / contentHeight!),
+    width: Math.min(1, viewportSize.width / view.zoom / contentWidth!),
+    height: Math.min(1, viewportSize.height / view.zoom / contentHeight!),
+  } : null;
+
+  return (
+    <div
+      ref={viewportRef}
+      className={`relative w-full h-[70vh] overflow-hidden touch-none ${isSpaceHeld ? 'cursor-grab' : ''}`}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerEnter={() => { isPointerOver.current = true; }}
+      onPointerLeave={() => { isPointerOver.current = false; }}
+      onMouseDown={(e) => { if (e.button === 1) e.preventDefault(); }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onAuxClick={(e) => e.preventDefault()}
+    >
+      <div
+        className="absolute top-0 left-0 origin-top-left"
+        style={{ width: contentWidth ?? undefined, height: contentHeight ?? undefined, transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`, visibility: hasContent ? 'visible' : 'hidden' }}
+      >
+        {children(view.zoom)}
+      </div>
+
+      {hasContent && (
+        <div className="absolute top-2 right-2 z-20 flex items-center gap-1" data-canvas-control>
+          <button onClick={() => zoomToCenter(zoom => zoom / 1.25)} className={controlClass} aria-label="Zoom out">−</button>
+          <span className="px-2 py-1 rounded-md text-xs font-semibold bg-black/60 text-white tabular-nums min-w-[3.5rem] text-center">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => zoomToCenter(zoom => zoom * 1.25)} className={controlClass} aria-label="Zoom in">+</button>
+          <button onClick={() => setIsFitted(true)} className={controlClass}>Fit</button>
+          <button onClick={() => zoomToCenter(() => 1)} className={controlClass}>100%</button>
+        </div>
+      )}
+
+      {isZoomedIn && minimapUrl && visibleRect && (
+        <div
+          className="absolute bottom-2 right-2 z-20 w-40 rounded-md overflow-hidden border-2 border-white/70 shadow-lg bg-black/60 cursor-pointer"
+          style={{ aspectRatio: `${contentWidth} / ${contentHeight}` }}
+          data-canvas-control
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+          aria-label="Minimap"
+        >
+          <img src={minimapUrl} alt="" className="w-full h-full object-fill pointer-events-none" draggable={false} />
+          <div
+            className="absolute border-2 border-blue-400 bg-blue-400/20 pointer-events-none"
+            style={{ left: `${visibleRect.left * 100}%`, top: `${visibleRect.top * 100}%`, width: `${visibleRect.width * 100}%`, height: `${visibleRect.height * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditorCanvas;
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { GenerationError, QuotaError, TextResponseError, type GenerationErrorKind } from '../services/errors';
+
+interface ErrorPanelProps {
+  message: string;
+  // The exception behind the message, used to pick a remedy.
+  cause?: unknown;
+  // Re-runs the failed action with the same inputs.
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const remedies: Record<GenerationErrorKind, { title: string; remedy: string; canRetry: boolean }> = {
+  safety: { title: 'Blocked by Safety Filters', remedy: 'Rephrase your prompt to avoid sensitive content, or try a different image.', canRetry: false },
+  finishReason: { title: 'Generation Stopped Early', remedy: 'Try again. If it keeps happening, rephrase or simplify your prompt.', canRetry: true },
+  textResponse: { title: 'No Image Returned', remedy: 'Rephrase your prompt as a direct instruction to change the image, then retry.', canRetry: true },
+  quota: { title: 'Rate Limit Reached', remedy: 'Too many requests were made. Wait a moment before retrying.', canRetry: true },
+  network: { title: 'Connection Problem', remedy: 'Check your internet connection, then retry.', canRetry: true },
+  invalidKey: { title: 'API Key Problem', remedy: 'Check that the Gemini API key is set correctly (VITE_API_KEY locally, API_KEY in Docker) and restart the app.', canRetry: false },
+};
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ message, cause, onRetry, onDismiss }) => {
+  const details = cause instanceof GenerationError ? remedies[cause.kind] : null;
+  const retryAfter = cause instanceof QuotaError ? cause.retryAfterSeconds : null;
+  const [secondsLeft, setSecondsLeft] = useState(retryAfter ?? 0);
+
+  useEffect(() => {
+    setSecondsLeft(retryAfter ?? 0);
+    if (!retryAfter) return;
+    const interval = setInterval(() => setSecondsLeft(seconds => Math.max(0, seconds - 1)), 1000);
+    return () => clearInterval(interval);
+  }, [retryAfter]);
+
+  const showRetry = !!onRetry && (details?.canRetry ?? true);
+
+  return (
+    <div className="text-center animate-fade-in bg-red-500/10 border border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto my-auto flex flex-col items-center gap-4">
+      <h2 className="text-2xl font-bold text-red-600 dark:text-red-300">{details?.title ?? 'An Error Occurred'}</h2>
+      <p className="text-md text-red-700 dark:text-red-400">{message}</p>
+      {details && (
+        <p className="text-sm text-slate-700 dark:text-gray-300">
+          {secondsLeft > 0 ? `Retry in ${secondsLeft} ${secondsLeft === 1 ? 'second' : 'seconds'}.` : details.remedy}
+        </p>
+      )}
+      {cause instanceof TextResponseError && cause.text && (
+        <blockquote className="text-sm italic text-slate-600 dark:text-gray-400 border-l-4 border-red-500/30 pl-3 text-left">{cause.text}</blockquote>
+      )}
+      <div className="flex gap-2">
+        {showRetry && (
+          <button onClick={onRetry} disabled={secondsLeft > 0} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {secondsLeft > 0 ? `Retry (${secondsLeft}s)` : 'Retry'}
+          </button>
+        )}
+        <button onClick={onDismiss} className={showRetry ? 'bg-transparent border border-red-500/40 text-red-600 dark:text-red-300 hover:bg-red-500/10 font-bold py-2 px-6 rounded-lg text-md transition-colors' : 'bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors'}>
+          {showRetry ? 'Dismiss' : 'Try Again'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import PinButton from './PinButton';
+import { EXPANSION_ANCHORS, MAX_EXPANDED_SIDE, computeExpansionLayout, expansionMargins } from '../utils/canvasExpand';
+import type { CanvasExpansion } from '../types';
+
+interface ExpandPanelProps {
+  imageUrl: string | null;
+  imageSize: { width: number; height: number } | null;
+  onExpand: (expansion: CanvasExpansion) => void;
+  onPin: (expansion: CanvasExpansion | null) => void;
+  pinnedExpansion: CanvasExpansion | null;
+  isLoading: boolean;
+}
+
+const aspects: { label: string; value: number }[] = [
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 4 / 5 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+const inputClass = 'bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:opacity-50';
+
+const ExpandPanel: React.FC<ExpandPanelProps> = ({ imageUrl, imageSize, onExpand, onPin, pinnedExpansion, isLoading }) => {
+  const [mode, setMode] = useState<CanvasExpansion['mode']>('aspect');
+  const [aspectLabel, setAspectLabel] = useState('16:9');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [anchor, setAnchor] = useState({ x: 0.5, y: 0.5 });
+
+  // The size fields start at the image's own size, for the user to grow from.
+  useEffect(() => {
+    if (!imageSize) return;
+    setWidth(String(imageSize.width));
+    setHeight(String(imageSize.height));
+  }, [imageSize]);
+
+  const aspect = aspects.find(({ label }) => label === aspectLabel) ?? aspects[0];
+  const expansion: CanvasExpansion = mode === 'aspect'
+    ? { mode, aspect: aspect.value, label: aspect.label, anchor }
+    : { mode, width: Math.round(Number(width)) || 0, height: Math.round(Number(height)) || 0, anchor };
+  const layout = imageSize && computeExpansionLayout(imageSize, expansion);
+  const margins = layout && expansionMargins(layout);
+  const grows = !!layout && (layout.width > layout.sourceWidth || layout.height > layout.sourceHeight);
+  const isPinned = !!pinnedExpansion && JSON.stringify(pinnedExpansion) === JSON.stringify(expansion);
+  const addedSides = margins ? (['left', 'top', 'right', 'bottom'] as const).filter(side => margins[side] > 0).map(side => `${margins[side]} px ${side}`) : [];
+
+  return (
+    <div className="w-full flex flex-col gap-4 animate-fade-in">
+      <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200">Expand the Canvas</h3>
+      <p className="text-sm text-slate-600 dark:text-gray-400 -mt-2">The AI fills only the new border. Your image is pasted back pixel for pixel, so it can't move or change.</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(['aspect', 'size'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            disabled={isLoading}
+            className={`py-2 px-3 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${mode === option ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' : 'bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200'}`}
+          >
+            {option === 'aspect' ? 'Aspect Ratio' : 'Exact Size'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'aspect' ? (
+        <div className="grid grid-cols-3 gap-2">
+          {aspects.map(({ label }) => (
+            <button
+              key={label}
+              onClick={() => setAspectLabel(label)}
+              disabled={isLoading}
+              className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${aspectLabel === label ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20' : 'bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Width (px)</span>
+            <input type="number" min={imageSize?.width ?? 1} max={MAX_EXPANDED_SIDE} value={width} onChange={(e) => setWidth(e.target.value)} disabled={isLoading} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Height (px)</span>
+            <input type="number" min={imageSize?.height ?? 1} max={MAX_EXPANDED_SIDE} value={height} onChange={(e) => setHeight(e.target.value)} disabled={isLoading} className={inputClass} />
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-start gap-4">
+        <div className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Image position</span>
+          <div className="grid grid-cols-3 gap-1 w-24" role="radiogroup" aria-label="Image position">
+            {EXPANSION_ANCHORS.map(({ x, y, label }) => {
+              const isSelected = anchor.x === x && anchor.y === y;
+              return (
+                <button
+                  key={label}
+                  onClick={() => setAnchor({ x, y })}
+                  disabled={isLoading}
+                  role="radio"
+                  aria-checked={isSelected}
+                  aria-label={label}
+                  title={label}
+                  className={`h-7 rounded border transition-colors disabled:opacity-50 ${isSelected ? 'bg-blue-500 border-blue-400' : 'bg-slate-200 dark:bg-white/10 border-slate-300 dark:border-white/20 hover:bg-slate-300 dark:hover:bg-white/20'}`}
+                />
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Scale drawing of the new canvas: the striped area is what the AI will fill. */}
+        {layout && (
+          <div className="flex-1 h-32 flex items-center justify-center">
+            <div
+              className="relative max-w-full max-h-full bg-[repeating-linear-gradient(45deg,rgb(236_72_153/0.35)_0_6px,transparent_6px_12px)] border border-pink-400/70 rounded-sm"
+              style={{ aspectRatio: `${layout.width} / ${layout.height}`, width: layout.width >= layout.height ? '100%' : 'auto', height: layout.width >= layout.height ? 'auto' : '100%' }}
+            >
+              <div
+                className="absolute bg-slate-400 dark:bg-gray-600 bg-cover bg-center"
+                style={{
+                  left: `${(layout.x / layout.width) * 100}%`,
+                  top: `${(layout.y / layout.height) * 100}%`,
+                  width: `${(layout.sourceWidth / layout.width) * 100}%`,
+                  height: `${(layout.sourceHeight / layout.height) * 100}%`,
+                  backgroundImage: imageUrl ? `url(${imageUrl})` : undefined,
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {layout && (
+        <p className="text-sm text-slate-600 dark:text-gray-400">
+          {grows
+            ? <>New size <span className="font-semibold tabular-nums">{layout.width} × {layout.height}</span> px, adding {addedSides.join(', ')}.</>
+            : 'The image already fills this canvas. Choose a wider or taller target.'}
+        </p>
+      )}
+
+      <div className="flex flex-col gap-3">
+        <button
+          onClick={() => onExpand(expansion)}
+          disabled={isLoading || !grows}
+          className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          Expand Canvas
+        </button>
+        <PinButton isPinned={isPinned} onClick={() => onPin(isPinned ? null : expansion)} disabled={isLoading || !grows} label="Pin Expansion for Batch Use" />
+      </div>
+    </div>
+  );
+};
+
+export default ExpandPanel;
@@ -4,6 +4,7 @@
 */
 
 import React, { useState, useEffect } from 'react';
+import PinButton from './PinButton';
 
 interface FramePanelProps {
   onApplyFrame: (details: { style: string; topText: string; bottomText: string }) => void;
@@ -91,13 +92,7 @@ const FramePanel: React.FC<FramePanelProps> = ({ onApplyFrame, onPinFrame, isLoa
         >
             Generate Frame
         </button>
-        <button
-            onClick={handlePin}
-            className={`w-full font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out text-base border-2 disabled:opacity-50 disabled:cursor-not-allowed ${isPinned ? 'bg-green-500/20 border-green-400 text-green-300 hover:bg-green-500/30' : 'bg-slate-200 dark:bg-white/10 border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20'}`}
-            disabled={isLoading || !style.trim()}
-        >
-            {isPinned ? 'Style Pinned ✓' : 'Pin Frame for Batch Use'}
-        </button>
+        <PinButton isPinned={isPinned} onClick={handlePin} disabled={isLoading || !style.trim()} label="Pin Frame for Batch Use" />
       </div>
 
     </div>
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { ThemeMoonIcon, ThemeSunIcon } from './icons';
+import { BugIcon, PromptIcon, ThemeMoonIcon, ThemeSunIcon } from './icons';
 
 const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg className={className} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -14,9 +14,11 @@ const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
 interface HeaderProps {
     theme: 'light' | 'dark';
     setTheme: (theme: 'light' | 'dark') => void;
+    onOpenDebug: () => void;
+    onOpenPrompts: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ theme, setTheme }) => {
+const Header: React.FC<HeaderProps> = ({ theme, setTheme, onOpenDebug, onOpenPrompts }) => {
   const toggleTheme = () => {
     setTheme(theme === 'light' ? 'dark' : 'light');
   };
@@ -30,7 +32,23 @@ const Header: React.FC<HeaderProps> = ({ theme, setTheme }) => {
             DreamCraft
           </h1>
       </div>
-      <div className="flex-1 flex justify-end">
+      <div className="flex-1 flex justify-end gap-1">
+          <button
+              onClick={onOpenPrompts}
+              className="p-2 rounded-full transition-colors duration-200 text-slate-600 dark:text-gray-400 hover:bg-slate-200 dark:hover:bg-gray-700"
+              aria-label="Edit prompt templates"
+              title="Prompt templates"
+          >
+              <PromptIcon className="w-6 h-6" />
+          </button>
+          <button
+              onClick={onOpenDebug}
+              className="p-2 rounded-full transition-colors duration-200 text-slate-600 dark:text-gray-400 hover:bg-slate-200 dark:hover:bg-gray-700"
+              aria-label="Show model calls"
+              title="Model calls (debug)"
+          >
+              <BugIcon className="w-6 h-6" />
+          </button>
           <button 
               onClick={toggleTheme}
               className="p-2 rounded-full transition-colors duration-200 text-slate-600 dark:text-gray-400 hover:bg-slate-200 dark:hover:bg-gray-700"
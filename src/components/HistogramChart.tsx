@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { Histogram } from '../utils/histogram';
+
+interface HistogramChartProps {
+  histogram: Histogram;
+  // An earlier histogram, drawn as a dashed outline so the two can be compared.
+  before?: Histogram | null;
+  className?: string;
+}
+
+const HEIGHT = 100;
+
+// The chart is scaled to the tallest bin between pure black and pure white,
+// so a large clipped area doesn't flatten the rest. Heights are shares of the
+// image rather than pixel counts, since compared images may differ in size.
+const peakShare = (histogram: Histogram) => {
+  let peak = 1;
+  for (const counts of [histogram.luma, histogram.red, histogram.green, histogram.blue]) {
+    for (let level = 1; level < 255; level++) peak = Math.max(peak, counts[level]);
+  }
+  return peak / histogram.pixelCount;
+};
+
+const linePath = (counts: Uint32Array, pixelCount: number, peak: number) =>
+  Array.from(counts, (count, level) => `${level === 0 ? 'M' : 'L'}${level},${(HEIGHT * (1 - Math.min(1, count / pixelCount / peak))).toFixed(1)}`).join(' ');
+
+// Luma as a filled area with the red, green and blue channels drawn over it.
+const HistogramChart: React.FC<HistogramChartProps> = ({ histogram, before, className = 'h-24' }) => {
+  const peak = peakShare(histogram);
+  const path = (counts: Uint32Array, pixelCount = histogram.pixelCount) => linePath(counts, pixelCount, peak);
+
+  return (
+    <svg viewBox={`0 0 256 ${HEIGHT}`} preserveAspectRatio="none" className={`w-full bg-slate-900/90 rounded-md ${className}`} role="img" aria-label="Histogram">
+      <path d={`${path(histogram.luma)} L255,${HEIGHT} L0,${HEIGHT} Z`} className="fill-slate-400/50" />
+      <path d={path(histogram.red)} fill="none" stroke="rgb(248 113 113)" strokeWidth={1} vectorEffect="non-scaling-stroke" opacity={0.8} />
+      <path d={path(histogram.green)} fill="none" stroke="rgb(74 222 128)" strokeWidth={1} vectorEffect="non-scaling-stroke" opacity={0.8} />
+      <path d={path(histogram.blue)} fill="none" stroke="rgb(96 165 250)" strokeWidth={1} vectorEffect="non-scaling-stroke" opacity={0.8} />
+      {before && <path d={path(before.luma, before.pixelCount)} fill="none" stroke="white" strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />}
+    </svg>
+  );
+};
+
+export default HistogramChart;
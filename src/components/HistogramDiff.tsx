@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import HistogramChart from './HistogramChart';
+import { compareHistograms, readHistogram, type Histogram } from '../utils/histogram';
+
+interface HistogramDiffProps {
+  before: File;
+  after: File;
+}
+
+const formatSigned = (value: number, digits: number) => `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(digits)}`;
+
+// Below these, a change is measurement noise rather than something the step did.
+const EXPOSURE_THRESHOLD = 0.05;
+const COLOR_THRESHOLD = 1;
+
+// What a step did to the tones of its input: the two histograms overlaid, and
+// the change in brightness and color balance.
+const HistogramDiff: React.FC<HistogramDiffProps> = ({ before, after }) => {
+  const [histograms, setHistograms] = useState<[Histogram, Histogram] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([readHistogram(before), readHistogram(after)])
+      .then(result => { if (!cancelled) setHistograms(result); })
+      .catch(err => console.error('Failed to compare the histograms.', err));
+    return () => { cancelled = true; };
+  }, [before, after]);
+
+  if (!histograms) return <p className="text-xs text-slate-500 dark:text-gray-500">Comparing histograms…</p>;
+
+  const change = compareHistograms(histograms[0], histograms[1]);
+  const rows = [
+    { label: 'Exposure', value: Math.abs(change.exposureStops) < EXPOSURE_THRESHOLD ? 'Unchanged' : `${formatSigned(change.exposureStops, 2)} EV` },
+    { label: 'Warmth', value: Math.abs(change.warmth) < COLOR_THRESHOLD ? 'Unchanged' : `${formatSigned(change.warmth, 1)} (${change.warmth > 0 ? 'warmer' : 'cooler'})` },
+    { label: 'Tint', value: Math.abs(change.magenta) < COLOR_THRESHOLD ? 'Unchanged' : `${formatSigned(change.magenta, 1)} (${change.magenta > 0 ? 'more magenta' : 'greener'})` },
+    { label: 'Clipped', value: `${(change.before.clippedShadows * 100).toFixed(1)}% → ${(change.after.clippedShadows * 100).toFixed(1)}% black, ${(change.before.clippedHighlights * 100).toFixed(1)}% → ${(change.after.clippedHighlights * 100).toFixed(1)}% white` },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <HistogramChart histogram={histograms[1]} before={histograms[0]} className="h-16" />
+      <p className="text-[11px] text-slate-500 dark:text-gray-500">Dashed: the step's input.</p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {rows.map(({ label, value }) => (
+          <React.Fragment key={label}>
+            <dt className="font-semibold text-slate-500 dark:text-gray-400 whitespace-nowrap">{label}</dt>
+            <dd className="text-slate-800 dark:text-gray-200">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default HistogramDiff;
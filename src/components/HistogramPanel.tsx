@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import HistogramChart from './HistogramChart';
+import { histogramStats, type Histogram } from '../utils/histogram';
+
+interface HistogramPanelProps {
+  histogram: Histogram | null;
+}
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+// Histogram of the current history entry, folded away until it is wanted.
+const HistogramPanel: React.FC<HistogramPanelProps> = ({ histogram }) => {
+  const stats = histogram && histogramStats(histogram);
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm font-medium text-slate-600 dark:text-gray-400 select-none">Histogram</summary>
+      {histogram && stats ? (
+        <div className="flex flex-col gap-2 pt-2">
+          <HistogramChart histogram={histogram} />
+          <dl className="grid grid-cols-3 gap-2 text-xs text-center">
+            <div><dt className="text-slate-500 dark:text-gray-500">Mean</dt><dd className="font-semibold text-slate-800 dark:text-gray-200 tabular-nums">{Math.round(stats.meanLuma)}</dd></div>
+            <div><dt className="text-slate-500 dark:text-gray-500">Black clipped</dt><dd className="font-semibold text-slate-800 dark:text-gray-200 tabular-nums">{formatPercent(stats.clippedShadows)}</dd></div>
+            <div><dt className="text-slate-500 dark:text-gray-500">White clipped</dt><dd className="font-semibold text-slate-800 dark:text-gray-200 tabular-nums">{formatPercent(stats.clippedHighlights)}</dd></div>
+          </dl>
+        </div>
+      ) : (
+        <p className="pt-2 text-xs text-slate-500 dark:text-gray-500">Reading the image…</p>
+      )}
+    </details>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import type { Hotspot } from '../types';
+
+interface HotspotMarkerProps {
+  hotspot: Hotspot;
+  number: number;
+  zoom: number;
+  // Image size in pixels; a dragged point stays inside it.
+  bounds: { width: number; height: number };
+  isSelected: boolean;
+  onSelect: () => void;
+  onMove: (point: { x: number, y: number }) => void;
+  onDelete: () => void;
+}
+
+// Pointer travel, in screen pixels, before a press on a marker becomes a drag.
+const DRAG_TOLERANCE = 3;
+
+// A numbered retouch point on the editor canvas. Drag to move it, click to select it,
+// and press Delete or Backspace while it is focused to remove it.
+const HotspotMarker: React.FC<HotspotMarkerProps> = ({ hotspot, number, zoom, bounds, isSelected, onSelect, onMove, onDelete }) => {
+  const drag = useRef<{ pointerId: number; startX: number; startY: number; pointX: number; pointY: number; moved: boolean } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, pointX: hotspot.x, pointY: hotspot.y, moved: false };
+    onSelect();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const current = drag.current;
+    if (!current || current.pointerId !== e.pointerId) return;
+    e.stopPropagation();
+    const dx = e.clientX - current.startX;
+    const dy = e.clientY - current.startY;
+    if (!current.moved && Math.hypot(dx, dy) < DRAG_TOLERANCE) return;
+    current.moved = true;
+    // Screen movement is divided by the zoom to get image pixels.
+    onMove({
+      x: Math.round(Math.min(bounds.width, Math.max(0, current.pointX + dx / zoom))),
+      y: Math.round(Math.min(bounds.height, Math.max(0, current.pointY + dy / zoom))),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (drag.current?.pointerId !== e.pointerId) return;
+    e.stopPropagation();
+    drag.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      onDelete();
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      data-canvas-control
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      className={`absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 flex items-center justify-center text-[11px] font-bold text-white cursor-move touch-none z-10 focus:outline-none ${isSelected ? 'bg-blue-600 border-yellow-300 ring-2 ring-yellow-300/60' : 'bg-blue-500/70 border-white'}`}
+      style={{ left: hotspot.x, top: hotspot.y, transform: `scale(${1 / zoom})` }}
+      title={hotspot.instruction?.trim() || `Point ${number}`}
+      aria-label={`Point ${number}`}
+    >
+      {number}
+    </button>
+  );
+};
+
+export default HotspotMarker;
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { clientToImagePoint } from '../utils/imageUtils';
+
+interface MaskCanvasProps {
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  width: number;
+  height: number;
+  brushSize: number;
+  isErasing: boolean;
+  disabled: boolean;
+  // Kept mounted but not shown, so the painting survives Compare and a switch to Points mode.
+  hidden: boolean;
+  onPaint: () => void;
+  // The painting lives only in this canvas and is gone once it unmounts.
+  onDiscard: () => void;
+}
+
+// Transparent overlay the user paints the retouch mask onto. The canvas is sized
+// to the image's natural resolution and fills the editor canvas stage, so it
+// lines up with the `<img>` it covers at every zoom level.
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ canvasRef, width, height, brushSize, isErasing, disabled, hidden, onPaint, onDiscard }) => {
+  const lastPoint = useRef<{ x: number, y: number } | null>(null);
+  const onDiscardRef = useRef(onDiscard);
+  onDiscardRef.current = onDiscard;
+
+  useEffect(() => () => onDiscardRef.current(), []);
+
+  const paintTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const point = clientToImagePoint(canvas, width, height, e.clientX, e.clientY);
+    if (!point) { lastPoint.current = null; return; }
+
+    // Brush size is chosen in screen pixels; convert it to image pixels.
+    const rect = canvas.getBoundingClientRect();
+    const scale = Math.max(width / rect.width, height / rect.height);
+    const from = lastPoint.current ?? point;
+
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+
+    lastPoint.current = point;
+    onPaint();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    paintTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    paintTo(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPoint.current = null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`absolute inset-0 w-full h-full opacity-50 z-10 touch-none ${hidden ? 'invisible pointer-events-none' : disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+    />
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import type { Product } from '../services/productCatalog';
+
+interface ObjectCardProps {
+  product: Product;
+  isSelected: boolean;
+  onSelect: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  disabled: boolean;
+}
+
+// A catalog product as a selectable thumbnail, with edit and delete actions.
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onSelect, onEdit, onDelete, disabled }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const cover = product.images[0];
+
+  useEffect(() => {
+    if (!cover) return;
+    const objectUrl = URL.createObjectURL(cover);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [cover]);
+
+  return (
+    <div className={`rounded-lg overflow-hidden border-2 flex flex-col bg-slate-100 dark:bg-black/20 transition-colors ${isSelected ? 'border-blue-500' : 'border-transparent'}`}>
+      <button onClick={onSelect} disabled={disabled} className="aspect-square w-full bg-white dark:bg-black/30 overflow-hidden disabled:cursor-not-allowed" aria-label={`Select ${product.name}`} aria-pressed={isSelected}>
+        {url && <img src={url} alt={product.name} className="w-full h-full object-contain" />}
+      </button>
+      <div className="p-2 flex flex-col gap-1">
+        <p className="text-sm font-semibold text-slate-800 dark:text-gray-100 truncate" title={product.description || product.name}>{product.name}</p>
+        <p className="text-xs text-slate-500 dark:text-gray-500">{product.images.length} {product.images.length === 1 ? 'image' : 'images'}</p>
+        <div className="grid grid-cols-2 gap-1 text-xs font-semibold">
+          <button onClick={onEdit} disabled={disabled} className="py-1 rounded-md bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20 transition-colors disabled:opacity-50">Edit</button>
+          <button onClick={() => { if (window.confirm(`Delete "${product.name}" from the catalog?`)) onDelete(); }} disabled={disabled} className="py-1 rounded-md bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-500/20 transition-colors disabled:opacity-50">Delete</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObjectCard;
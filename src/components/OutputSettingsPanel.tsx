@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { EXPORT_FORMATS, getExportFormat, type ExportFormat, type OutputPolicy } from '../services/outputPolicy';
+import { isExportFormatSupported } from '../utils/imageExport';
+
+interface OutputSettingsPanelProps {
+  policy: OutputPolicy;
+  onChange: (policy: OutputPolicy) => void;
+  disabled: boolean;
+}
+
+// Download format and what is carried over from the original, above the download buttons.
+const OutputSettingsPanel: React.FC<OutputSettingsPanelProps> = ({ policy, onChange, disabled }) => {
+  const format = getExportFormat(policy.format);
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm font-medium text-slate-600 dark:text-gray-400 select-none">Output Settings ({format.label}{format.lossy ? ` ${Math.round(policy.quality * 100)}%` : ''})</summary>
+      <div className="flex flex-col gap-3 pt-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Download format</span>
+          <select
+            value={policy.format}
+            onChange={(e) => onChange({ ...policy, format: e.target.value as ExportFormat })}
+            disabled={disabled}
+            className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:opacity-50"
+          >
+            {EXPORT_FORMATS.map(({ id, label }) => {
+              const supported = isExportFormatSupported(id);
+              return <option key={id} value={id} disabled={!supported}>{label}{supported ? '' : ' (not supported by this browser)'}</option>;
+            })}
+          </select>
+        </label>
+
+        {format.lossy && (
+          <label className="flex flex-col gap-1">
+            <span className="flex justify-between text-sm font-medium text-slate-600 dark:text-gray-400">
+              <span>Quality</span>
+              <span className="tabular-nums">{Math.round(policy.quality * 100)}%</span>
+            </span>
+            <input type="range" min={10} max={100} step={1} value={Math.round(policy.quality * 100)} onChange={(e) => onChange({ ...policy, quality: Number(e.target.value) / 100 })} disabled={disabled} className="w-full accent-blue-500" />
+          </label>
+        )}
+
+        <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-gray-300">
+          <input type="checkbox" checked={policy.keepMetadata} onChange={(e) => onChange({ ...policy, keepMetadata: e.target.checked })} disabled={disabled} className="mt-0.5 accent-blue-500" />
+          <span>
+            Keep photo metadata (EXIF)
+            <span className="block text-xs text-slate-500 dark:text-gray-500">
+              {format.carriesMetadata
+                ? 'Copies camera, date and location data from the original upload. Leave off to strip it.'
+                : `${format.label} downloads are always saved without metadata.`}
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-gray-300">
+          <input type="checkbox" checked={policy.matchSourceSize} onChange={(e) => onChange({ ...policy, matchSourceSize: e.target.checked })} disabled={disabled} className="mt-0.5 accent-blue-500" />
+          <span>
+            Resize AI results to the input image's size
+            <span className="block text-xs text-slate-500 dark:text-gray-500">Applies to new Retouch, Replace, Place Product, Creative style and Adjustment results. A result with a different shape than the input is kept at the model's size, so nothing is cropped or stretched.</span>
+          </span>
+        </label>
+
+        <p className="text-xs text-slate-500 dark:text-gray-500">Downloads are saved in sRGB; embedded color profiles are not kept.</p>
+      </div>
+    </details>
+  );
+};
+
+export default OutputSettingsPanel;
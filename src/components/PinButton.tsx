@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface PinButtonProps {
+  isPinned: boolean;
+  onClick: () => void;
+  disabled: boolean;
+  label?: string;
+}
+
+// Pins the tool's current settings as the operation the Batch tool applies.
+const PinButton: React.FC<PinButtonProps> = ({ isPinned, onClick, disabled, label = 'Pin for Batch Use' }) => (
+  <button
+    onClick={onClick}
+    className={`w-full font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out text-base border-2 disabled:opacity-50 disabled:cursor-not-allowed ${isPinned ? 'bg-green-500/20 border-green-400 text-green-300 hover:bg-green-500/30' : 'bg-slate-200 dark:bg-white/10 border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20'}`}
+    disabled={disabled}
+  >
+    {isPinned ? 'Pinned for Batch ✓' : label}
+  </button>
+);
+
+export default PinButton;
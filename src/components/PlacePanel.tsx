@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import ProductSelector from './ProductSelector';
+import AddProductModal from './AddProductModal';
+import type { ReplaceAnchorMode } from './ReplacePanel';
+import type { Product } from '../services/productCatalog';
+
+export type PlaceAnchorMode = Exclude<ReplaceAnchorMode, 'none'>;
+
+interface PlacePanelProps {
+  products: Product[];
+  selectedProductId: string | null;
+  onSelectProduct: (id: string) => void;
+  // Saves a new product, or updates the one with `id`.
+  onSaveProduct: (details: { name: string; description: string; images: File[] }, id: string | null) => Promise<void>;
+  onDeleteProduct: (id: string) => void;
+  anchorMode: PlaceAnchorMode;
+  onAnchorModeChange: (mode: PlaceAnchorMode) => void;
+  hasAnchor: boolean;
+  onClearAnchor: () => void;
+  instructions: string;
+  onInstructionsChange: (instructions: string) => void;
+  onPlace: () => void;
+  isLoading: boolean;
+}
+
+const anchorModes: { id: PlaceAnchorMode; name: string; hint: string }[] = [
+  { id: 'point', name: 'Point', hint: 'Click where the product should go.' },
+  { id: 'box', name: 'Box', hint: 'Drag a box where the product should go. Its size sets the product size.' },
+];
+
+const PlacePanel: React.FC<PlacePanelProps> = ({
+  products, selectedProductId, onSelectProduct, onSaveProduct, onDeleteProduct, anchorMode, onAnchorModeChange,
+  hasAnchor, onClearAnchor, instructions, onInstructionsChange, onPlace, isLoading,
+}) => {
+  // The product being edited in the modal; null adds a new one.
+  const [editing, setEditing] = useState<{ product: Product | null } | null>(null);
+  const selectedProduct = products.find(product => product.id === selectedProductId);
+
+  return (
+    <div className="flex flex-col items-center gap-4 animate-fade-in">
+      <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200 self-start">Place Product</h3>
+      <p className="text-md text-slate-600 dark:text-gray-400 self-start">
+        {products.length === 0 ? 'Add a product to your catalog to get started.' : 'Choose a product from your catalog.'}
+      </p>
+
+      <ProductSelector
+        products={products}
+        selectedId={selectedProductId}
+        onSelect={onSelectProduct}
+        onAdd={() => setEditing({ product: null })}
+        onEdit={product => setEditing({ product })}
+        onDelete={onDeleteProduct}
+        disabled={isLoading}
+      />
+
+      <div className="w-full flex flex-col gap-2 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700">
+        <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Where</span>
+        <div className="grid grid-cols-2 gap-2">
+          {anchorModes.map(({ id, name }) => (
+            <button
+              key={id}
+              onClick={() => onAnchorModeChange(id)}
+              disabled={isLoading}
+              className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-50 ${anchorMode === id ? 'bg-blue-500 text-white' : 'bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 dark:text-gray-500">{anchorModes.find(({ id }) => id === anchorMode)?.hint}</p>
+        {hasAnchor && (
+          <button onClick={onClearAnchor} disabled={isLoading} className="self-start text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+            Clear {anchorMode === 'box' ? 'box' : 'point'}
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); onPlace(); }} className="w-full flex flex-col items-center gap-2">
+        <input type="text" value={instructions} onChange={(e) => onInstructionsChange(e.target.value)} placeholder="Optional, e.g., 'standing on the table, slightly turned'" className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full" disabled={isLoading} />
+        <button type="submit" className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !selectedProduct || !hasAnchor}>
+          {selectedProduct ? `Place ${selectedProduct.name}` : 'Place Product'}
+        </button>
+      </form>
+
+      {editing && (
+        <AddProductModal
+          product={editing.product}
+          onSave={details => onSaveProduct(details, editing.product?.id ?? null)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlacePanel;
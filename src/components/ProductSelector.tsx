@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import ObjectCard from './ObjectCard';
+import type { Product } from '../services/productCatalog';
+
+interface ProductSelectorProps {
+  products: Product[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onEdit: (product: Product) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+}
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, selectedId, onSelect, onAdd, onEdit, onDelete, disabled }) => (
+  <div className="w-full grid grid-cols-2 gap-2 max-h-96 overflow-y-auto">
+    {products.map(product => (
+      <ObjectCard
+        key={product.id}
+        product={product}
+        isSelected={product.id === selectedId}
+        onSelect={() => onSelect(product.id)}
+        onEdit={() => onEdit(product)}
+        onDelete={() => onDelete(product.id)}
+        disabled={disabled}
+      />
+    ))}
+    <button
+      onClick={onAdd}
+      disabled={disabled}
+      className="min-h-[8rem] rounded-lg border-2 border-dashed border-slate-300 dark:border-gray-600 text-slate-600 dark:text-gray-400 font-semibold hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      + Add Product
+    </button>
+  </div>
+);
+
+export default ProductSelector;
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  BUILT_IN_VARIANT_ID, createPromptVariant, deletePromptVariant, getPromptRotation, listPromptTemplates, listPromptVariants,
+  setPromptRotation, updatePromptVariant, type PromptTemplateId,
+} from '../services/promptTemplates';
+import { ADVERSARIAL_INPUTS, checkPromptTemplate, hasUserText } from '../services/promptInjectionCheck';
+import { findTemplateVariables, findUnbalancedSections } from '../utils/promptTemplate';
+
+interface PromptTemplateModalProps {
+  onClose: () => void;
+}
+
+const buttonClass = 'py-1.5 px-3 rounded-md text-sm font-semibold bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Editor for the prompt registry: custom variants of each operation's prompt,
+// and which of them calls are spread across.
+const PromptTemplateModal: React.FC<PromptTemplateModalProps> = ({ onClose }) => {
+  const templates = listPromptTemplates();
+  const [templateId, setTemplateId] = useState<PromptTemplateId>(templates[0].id);
+  // Bumped after every change so the lists are read from storage again.
+  const [revision, setRevision] = useState(0);
+  const [variantId, setVariantId] = useState<string>(BUILT_IN_VARIANT_ID);
+  const [draftName, setDraftName] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const definition = templates.find(template => template.id === templateId)!;
+  const variants = listPromptVariants(templateId);
+  const rotation = getPromptRotation(templateId);
+  const variant = variants.find(candidate => candidate.id === variantId) ?? variants[0];
+  const isBuiltIn = variant.id === BUILT_IN_VARIANT_ID;
+  const isDirty = draftName !== variant.name || draftBody !== variant.body;
+
+  // Load the selected variant into the editor whenever it changes.
+  useEffect(() => {
+    setDraftName(variant.name);
+    setDraftBody(variant.body);
+    setError(null);
+  }, [templateId, variant.id, variant.version]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const knownVariables = new Set(definition.variables.map(({ name }) => name));
+  const unknownVariables = findTemplateVariables(draftBody).filter(name => !knownVariables.has(name));
+  const unbalancedSections = findUnbalancedSections(draftBody);
+  // One line per distinct message; the same fault usually shows up for many inputs.
+  const injectionProblems = useMemo(
+    () => [...new Set(checkPromptTemplate(templateId, draftBody).map(({ message }) => message))],
+    [templateId, draftBody],
+  );
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+      setRevision(revision + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the prompt.');
+    }
+  };
+
+  const handleSelectTemplate = (id: PromptTemplateId) => {
+    setTemplateId(id);
+    setVariantId(BUILT_IN_VARIANT_ID);
+  };
+
+  const handleDuplicate = () => run(() => {
+    const copy = createPromptVariant(templateId, `${draftName} (copy)`, draftBody);
+    setVariantId(copy.id);
+  });
+
+  const handleToggleRotation = (id: string) => run(() => {
+    setPromptRotation(templateId, rotation.includes(id) ? rotation.filter(candidate => candidate !== id) : [...rotation, id]);
+  });
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the prompt variant "${variant.name}"?`)) return;
+    run(() => {
+      deletePromptVariant(variant.id);
+      setVariantId(BUILT_IN_VARIANT_ID);
+    });
+  };
+
+  const previous = variant.previousVersions[0];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-6xl h-[85vh] bg-white dark:bg-gray-900 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl flex flex-col overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="prompt-modal-title"
+      >
+        <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-slate-200 dark:border-gray-700">
+          <h2 id="prompt-modal-title" className="text-lg font-bold text-slate-800 dark:text-gray-100">Prompt Templates</h2>
+          <button onClick={onClose} className={buttonClass} aria-label="Close">✕</button>
+        </div>
+        <div className="flex-grow flex min-h-0">
+          <ul className="w-52 flex-shrink-0 border-r border-slate-200 dark:border-gray-700 overflow-y-auto">
+            {templates.map(template => (
+              <li key={template.id}>
+                <button
+                  onClick={() => handleSelectTemplate(template.id)}
+                  className={`w-full text-left px-4 py-2 text-sm font-semibold border-b border-slate-100 dark:border-gray-800 transition-colors ${template.id === templateId ? 'bg-blue-500/10 text-blue-700 dark:text-blue-300' : 'text-slate-700 dark:text-gray-200 hover:bg-slate-100 dark:hover:bg-white/5'}`}
+                >
+                  {template.name}
+                  <span className="block text-xs font-normal text-slate-500 dark:text-gray-500">{listPromptVariants(template.id).length} {listPromptVariants(template.id).length === 1 ? 'variant' : 'variants'}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-grow p-4 overflow-y-auto flex flex-col gap-4">
+            <section className="flex flex-col gap-2">
+              <h3 className="text-sm font-bold text-slate-600 dark:text-gray-300">Variants</h3>
+              <p className="text-xs text-slate-500 dark:text-gray-500">Calls are spread evenly across the variants in rotation, so you can compare two wordings. The Model Calls panel shows which variant each call used.</p>
+              <ul className="flex flex-col gap-1">
+                {variants.map(candidate => (
+                  <li key={candidate.id} className={`flex items-center gap-3 px-3 py-2 rounded-md border ${candidate.id === variant.id ? 'border-blue-500 bg-blue-500/5' : 'border-slate-200 dark:border-gray-700'}`}>
+                    <input
+                      type="checkbox"
+                      checked={rotation.includes(candidate.id)}
+                      onChange={() => handleToggleRotation(candidate.id)}
+                      disabled={rotation.length === 1 && rotation.includes(candidate.id)}
+                      className="accent-blue-500"
+                      aria-label={`Use ${candidate.name}`}
+                    />
+                    <button onClick={() => setVariantId(candidate.id)} className="flex-grow text-left text-sm text-slate-800 dark:text-gray-200">
+                      <span className="font-semibold">{candidate.name}</span>
+                      <span className="text-slate-500 dark:text-gray-500"> · v{candidate.version}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  readOnly={isBuiltIn}
+                  className="flex-grow bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-3 py-1.5 text-sm font-semibold focus:ring-2 focus:ring-blue-500 focus:outline-none read-only:opacity-70"
+                  aria-label="Variant name"
+                />
+                <button onClick={handleDuplicate} className={buttonClass}>Duplicate</button>
+                {!isBuiltIn && (
+                  <>
+                    <button onClick={() => run(() => updatePromptVariant(variant.id, { name: draftName.trim() || variant.name, body: draftBody }))} disabled={!isDirty || unbalancedSections.length > 0} className={buttonClass}>Save</button>
+                    {previous && <button onClick={() => setDraftBody(previous.body)} className={buttonClass} title={`Load the body of v${previous.version} into the editor`}>Load v{previous.version}</button>}
+                    <button onClick={handleDelete} className="py-1.5 px-3 rounded-md text-sm font-semibold bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-500/20 transition-colors">Delete</button>
+                  </>
+                )}
+              </div>
+              {isBuiltIn && <p className="text-xs text-slate-500 dark:text-gray-500">The built-in prompt is read-only. Duplicate it to make an editable variant.</p>}
+              <textarea
+                value={draftBody}
+                onChange={(e) => setDraftBody(e.target.value)}
+                readOnly={isBuiltIn}
+                rows={18}
+                spellCheck={false}
+                className="w-full font-mono text-xs bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none resize-y read-only:opacity-70"
+                aria-label="Prompt template"
+              />
+              {unknownVariables.length > 0 && <p className="text-xs text-yellow-700 dark:text-yellow-300">Unknown variables, which will stay empty: {unknownVariables.join(', ')}</p>}
+              {unbalancedSections.length > 0 && <p className="text-xs text-red-600 dark:text-red-400">Unbalanced sections: {unbalancedSections.join(', ')}. Every {'{{#name}}'} needs a matching {'{{/name}}'}.</p>}
+              {injectionProblems.length > 0
+                ? injectionProblems.map(message => <p key={message} className="text-xs text-red-600 dark:text-red-400">Injection check: {message}</p>)
+                : hasUserText(templateId) && <p className="text-xs text-green-700 dark:text-green-400">Injection check: user text stays inside its quotes for all {ADVERSARIAL_INPUTS.length} adversarial inputs.</p>}
+              {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+            </section>
+
+            <section className="flex flex-col gap-1">
+              <h3 className="text-sm font-bold text-slate-600 dark:text-gray-300">Variables</h3>
+              <p className="text-xs text-slate-500 dark:text-gray-500">Write {'{{name}}'} to insert a value, and {'{{#name}}'}…{'{{/name}}'} for text that is only kept when the value is not empty.</p>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+                {definition.variables.map(({ name, description }) => (
+                  <React.Fragment key={name}>
+                    <dt className="font-mono text-slate-800 dark:text-gray-200">{`{{${name}}}`}</dt>
+                    <dd className="text-slate-600 dark:text-gray-400">{description}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateModal;
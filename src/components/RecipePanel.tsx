@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { Recipe, SkippedStep } from '../services/recipeService';
+import { describeOperation } from '../services/operations';
+
+interface RecipePanelProps {
+  recipe: Recipe | null;
+  onImportRecipe: (file: File) => void;
+  onClearRecipe: () => void;
+  onApplyRecipe: () => void;
+  onExportRecipe: (name: string) => void;
+  exportableStepCount: number;
+  skippedSteps: SkippedStep[];
+  isLoading: boolean;
+}
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ recipe, onImportRecipe, onClearRecipe, onApplyRecipe, onExportRecipe, exportableStepCount, skippedSteps, isLoading }) => {
+  const [name, setName] = useState('');
+
+  const handleExport = (e: React.FormEvent) => {
+    e.preventDefault();
+    onExportRecipe(name.trim() || 'My recipe');
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-6 animate-fade-in">
+      <div className="flex flex-col gap-3">
+        <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200">Save as Recipe</h3>
+        <p className="text-sm text-slate-600 dark:text-gray-400">
+          Save the steps that led to the current image so they can be replayed on other images.
+        </p>
+        <p className="text-sm text-slate-600 dark:text-gray-400 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700 text-center">
+          {exportableStepCount} replayable {exportableStepCount === 1 ? 'step' : 'steps'}
+        </p>
+        {skippedSteps.length > 0 && (
+          <div className="text-xs text-slate-500 dark:text-gray-500">
+            Left out of the recipe, counting steps from the original:
+            <ul className="mt-1 flex flex-col gap-0.5">
+              {skippedSteps.map(({ step, reason }) => <li key={step}>Step {step}: {reason}</li>)}
+            </ul>
+          </div>
+        )}
+        <form onSubmit={handleExport} className="flex flex-col gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Recipe name"
+            className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-3 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full"
+            disabled={isLoading}
+          />
+          <button
+            type="submit"
+            className="w-full bg-slate-200 dark:bg-white/10 border-2 border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out hover:bg-slate-300 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={isLoading || exportableStepCount === 0}
+          >
+            Download Recipe (.json)
+          </button>
+        </form>
+      </div>
+
+      <div className="flex flex-col gap-3 pt-6 border-t border-slate-200 dark:border-gray-700">
+        <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200">Apply a Recipe</h3>
+        {recipe ? (
+          <>
+            <div className="w-full bg-slate-200 dark:bg-black/20 p-4 rounded-lg border border-slate-300 dark:border-gray-700 text-sm">
+              <p className="font-bold text-slate-800 dark:text-gray-300 break-words">{recipe.name}</p>
+              <ol className="list-decimal list-inside mt-2 flex flex-col gap-1 text-slate-600 dark:text-gray-400">
+                {recipe.steps.map((step, index) => <li key={index} className="break-words">{describeOperation(step)}</li>)}
+              </ol>
+            </div>
+            <button
+              onClick={onApplyRecipe}
+              className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              disabled={isLoading}
+            >
+              Apply to Current Image
+            </button>
+            <p className="text-xs text-center text-slate-500 dark:text-gray-500">To run it on many images, use the <span className="font-bold text-blue-500 dark:text-blue-400">'Batch'</span> tool.</p>
+            <button onClick={onClearRecipe} disabled={isLoading} className="text-sm text-slate-500 dark:text-gray-400 hover:text-slate-800 dark:hover:text-gray-200 transition-colors disabled:opacity-50">Unload recipe</button>
+          </>
+        ) : (
+          <p className="text-sm text-slate-600 dark:text-gray-400">Load a recipe file to replay its steps on the current image.</p>
+        )}
+        <label htmlFor="recipe-upload" className={`w-full text-center bg-transparent border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-200 dark:hover:bg-white/10 ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          {recipe ? 'Load a Different Recipe' : 'Load Recipe File'}
+        </label>
+        <input
+          id="recipe-upload"
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportRecipe(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RecipePanel;
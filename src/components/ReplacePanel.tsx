@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import PinButton from './PinButton';
+
+export type ReplaceAnchorMode = 'none' | 'point' | 'box';
+
+interface ReplacePanelProps {
+  target: string;
+  onTargetChange: (target: string) => void;
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  anchorMode: ReplaceAnchorMode;
+  onAnchorModeChange: (mode: ReplaceAnchorMode) => void;
+  hasAnchor: boolean;
+  onClearAnchor: () => void;
+  reference: File | null;
+  onReferenceChange: (reference: File | null) => void;
+  onReplace: () => void;
+  isPinned: boolean;
+  onTogglePin: () => void;
+  isLoading: boolean;
+}
+
+const anchorModes: { id: ReplaceAnchorMode; name: string; hint: string }[] = [
+  { id: 'none', name: 'Anywhere', hint: 'The AI picks which object to replace. Fine when there is only one.' },
+  { id: 'point', name: 'Point', hint: 'Click the object to replace. Drag the marker to adjust it.' },
+  { id: 'box', name: 'Box', hint: 'Drag a box around the object to replace.' },
+];
+
+const inputClass = 'bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full';
+
+const ReplacePanel: React.FC<ReplacePanelProps> = ({
+  target, onTargetChange, replacement, onReplacementChange, anchorMode, onAnchorModeChange, hasAnchor, onClearAnchor,
+  reference, onReferenceChange, onReplace, isPinned, onTogglePin, isLoading,
+}) => {
+  const [referenceUrl, setReferenceUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!reference) { setReferenceUrl(null); return; }
+    const url = URL.createObjectURL(reference);
+    setReferenceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [reference]);
+
+  const needsAnchor = anchorMode !== 'none' && !hasAnchor;
+  const hasText = !!target.trim() && !!replacement.trim();
+  // Anchors and reference images belong to this image, so a batch can only replay the plain text request.
+  const canPin = hasText && anchorMode === 'none' && !reference;
+
+  return (
+    <div className="flex flex-col items-center gap-4 animate-fade-in">
+      <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200 self-start">Replace Object</h3>
+      <p className="text-md text-slate-600 dark:text-gray-400">Describe the object and what to replace it with.</p>
+
+      <div className="w-full flex flex-col gap-2 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700">
+        <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Which object</span>
+        <div className="grid grid-cols-3 gap-2">
+          {anchorModes.map(({ id, name }) => (
+            <button
+              key={id}
+              onClick={() => onAnchorModeChange(id)}
+              disabled={isLoading}
+              className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-50 ${anchorMode === id ? 'bg-blue-500 text-white' : 'bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 dark:text-gray-500">{anchorModes.find(({ id }) => id === anchorMode)?.hint}</p>
+        {anchorMode !== 'none' && hasAnchor && (
+          <button onClick={onClearAnchor} disabled={isLoading} className="self-start text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+            Clear {anchorMode === 'box' ? 'box' : 'point'}
+          </button>
+        )}
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); onReplace(); }} className="w-full flex flex-col items-center gap-2">
+        <input type="text" value={target} onChange={(e) => onTargetChange(e.target.value)} placeholder="Object to replace" className={inputClass} disabled={isLoading} />
+        <input type="text" value={replacement} onChange={(e) => onReplacementChange(e.target.value)} placeholder="Replace with" className={inputClass} disabled={isLoading} />
+
+        <div className="w-full flex items-center gap-3 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700">
+          {referenceUrl ? (
+            <>
+              <img src={referenceUrl} alt="Reference" className="w-16 h-16 object-cover rounded-md flex-shrink-0" />
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-slate-700 dark:text-gray-300 truncate" title={reference?.name}>{reference?.name}</p>
+                <button type="button" onClick={() => onReferenceChange(null)} disabled={isLoading} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">Remove</button>
+              </div>
+            </>
+          ) : (
+            <label className={`flex-grow text-sm text-slate-600 dark:text-gray-400 ${isLoading ? 'opacity-50' : 'cursor-pointer hover:text-blue-600 dark:hover:text-blue-400'}`}>
+              <span className="font-semibold">Add a reference image</span> (optional) showing what the replacement should look like.
+              <input type="file" accept="image/*" className="hidden" disabled={isLoading} onChange={(e) => { onReferenceChange(e.target.files?.[0] ?? null); e.target.value = ''; }} />
+            </label>
+          )}
+        </div>
+
+        <button type="submit" className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !hasText || needsAnchor}>Replace</button>
+      </form>
+      <PinButton isPinned={isPinned} onClick={onTogglePin} disabled={isLoading || !canPin} />
+      {hasText && !canPin && <p className="text-xs text-slate-500 dark:text-gray-500 -mt-2">Batch jobs can only use replacements without a point, box or reference image.</p>}
+    </div>
+  );
+};
+
+export default ReplacePanel;
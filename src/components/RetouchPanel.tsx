@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { DraftHotspot } from '../types';
+
+export type RetouchMode = 'points' | 'brush';
+
+interface RetouchPanelProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: () => void;
+  isLoading: boolean;
+  mode: RetouchMode;
+  onModeChange: (mode: RetouchMode) => void;
+  hotspots: DraftHotspot[];
+  selectedHotspot: string | null;
+  onSelectHotspot: (id: string) => void;
+  onHotspotInstructionChange: (id: string, instruction: string) => void;
+  onDeleteHotspot: (id: string) => void;
+  onUndoHotspot: () => void;
+  hasMask: boolean;
+  onClearMask: () => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  feather: number;
+  onFeatherChange: (feather: number) => void;
+  isErasing: boolean;
+  onErasingChange: (isErasing: boolean) => void;
+  // Size of the edit area used by the drift check, as a fraction of the image's shorter side.
+  editRadius: number;
+  onEditRadiusChange: (radius: number) => void;
+  restoreUntouched: boolean;
+  onRestoreUntouchedChange: (restore: boolean) => void;
+}
+
+const RetouchPanel: React.FC<RetouchPanelProps> = ({
+  prompt, onPromptChange, onGenerate, isLoading, mode, onModeChange,
+  hotspots, selectedHotspot, onSelectHotspot, onHotspotInstructionChange, onDeleteHotspot, onUndoHotspot,
+  hasMask, onClearMask, brushSize, onBrushSizeChange, feather, onFeatherChange, isErasing, onErasingChange,
+  editRadius, onEditRadiusChange, restoreUntouched, onRestoreUntouchedChange,
+}) => {
+  const hasSelection = mode === 'points' ? hotspots.length > 0 : hasMask;
+  // With an instruction on every point, the general description becomes optional.
+  const isFullyInstructed = mode === 'points' && hasSelection && hotspots.every(hotspot => hotspot.instruction?.trim());
+  const modes: { id: RetouchMode; name: string }[] = [
+    { id: 'points', name: 'Points' },
+    { id: 'brush', name: 'Brush Mask' },
+  ];
+
+  return (
+    <div className="flex flex-col items-center gap-4 animate-fade-in">
+      <h3 className="text-xl font-bold text-slate-800 dark:text-gray-200 self-start">Precise Retouching</h3>
+
+      <div className="w-full grid grid-cols-2 gap-2">
+        {modes.map(({ id, name }) => (
+          <button
+            key={id}
+            onClick={() => onModeChange(id)}
+            disabled={isLoading}
+            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              mode === id
+              ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+              : 'bg-slate-200 dark:bg-white/10 hover:bg-slate-300 dark:hover:bg-white/20 text-slate-700 dark:text-gray-200'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-md text-slate-600 dark:text-gray-400">
+        {hasSelection ? (mode === 'points' ? 'Drag points to adjust them. Describe the edit below, or give each point its own instruction.' : 'Describe your edit below.') : mode === 'points' ? 'Click one or more areas on the image to edit.' : 'Paint over the area of the image you want to edit.'}
+      </p>
+
+      {mode === 'points' && hotspots.length > 0 && (
+        <ol className="w-full flex flex-col gap-2 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700 max-h-64 overflow-y-auto">
+          {hotspots.map((hotspot, index) => (
+            <li key={hotspot.id} className={`flex items-center gap-2 rounded-md p-1 ${selectedHotspot === hotspot.id ? 'bg-blue-500/10 ring-1 ring-blue-500/50' : ''}`}>
+              <button
+                type="button"
+                onClick={() => onSelectHotspot(hotspot.id)}
+                className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-500 text-white text-xs font-bold"
+                aria-label={`Select point ${index + 1}`}
+              >
+                {index + 1}
+              </button>
+              <input
+                type="text"
+                value={hotspot.instruction ?? ''}
+                onChange={(e) => onHotspotInstructionChange(hotspot.id, e.target.value)}
+                onFocus={() => onSelectHotspot(hotspot.id)}
+                placeholder={prompt.trim() ? 'Uses the description below' : "e.g., 'remove this sign'"}
+                disabled={isLoading}
+                className="flex-grow min-w-0 bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+              />
+              <button
+                type="button"
+                onClick={() => onDeleteHotspot(hotspot.id)}
+                disabled={isLoading}
+                className="flex-shrink-0 w-6 h-6 rounded-md text-slate-500 dark:text-gray-400 hover:bg-red-500/20 hover:text-red-500 disabled:opacity-50"
+                aria-label={`Delete point ${index + 1}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {mode === 'brush' && (
+        <div className="w-full flex flex-col gap-3 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => onErasingChange(false)}
+              disabled={isLoading}
+              className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-50 ${!isErasing ? 'bg-blue-500 text-white' : 'bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20'}`}
+            >
+              Brush
+            </button>
+            <button
+              onClick={() => onErasingChange(true)}
+              disabled={isLoading}
+              className={`py-2 rounded-md text-sm font-semibold transition-all duration-200 disabled:opacity-50 ${isErasing ? 'bg-blue-500 text-white' : 'bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20'}`}
+            >
+              Eraser
+            </button>
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Brush Size: {brushSize}px</span>
+            <input type="range" min={4} max={120} value={brushSize} onChange={(e) => onBrushSizeChange(Number(e.target.value))} disabled={isLoading} className="w-full accent-blue-500" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm font-medium text-slate-600 dark:text-gray-400">Feather: {feather}px</span>
+            <input type="range" min={0} max={50} value={feather} onChange={(e) => onFeatherChange(Number(e.target.value))} disabled={isLoading} className="w-full accent-blue-500" />
+          </label>
+        </div>
+      )}
+
+      <div className="w-full flex flex-col gap-3 bg-slate-100 dark:bg-gray-900/50 p-3 rounded-md border border-slate-200 dark:border-gray-700">
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-slate-600 dark:text-gray-400">{mode === 'points' ? 'Edit radius around points' : 'Margin around mask'}: {Math.round(editRadius * 100)}%</span>
+          <input type="range" min={2} max={50} value={Math.round(editRadius * 100)} onChange={(e) => onEditRadiusChange(Number(e.target.value) / 100)} disabled={isLoading} className="w-full accent-blue-500" />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-gray-400">
+          <input type="checkbox" checked={restoreUntouched} onChange={(e) => onRestoreUntouchedChange(e.target.checked)} disabled={isLoading} className="accent-blue-500" />
+          Restore untouched areas from the original
+        </label>
+        <p className="text-xs text-slate-500 dark:text-gray-500">Every retouch is checked for changes outside this area. Restoring keeps the edit and puts the original pixels back everywhere else.</p>
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); onGenerate(); }} className="w-full flex flex-col items-center gap-2">
+          <textarea value={prompt} onChange={(e) => onPromptChange(e.target.value)} placeholder={isFullyInstructed ? 'Optional: applies to points without their own instruction' : hasSelection ? "e.g., 'change shirt to blue'" : mode === 'points' ? "First click the image" : "First paint on the image"} rows={4} className="bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 resize-y" disabled={isLoading || !hasSelection} />
+          <div className="w-full grid grid-cols-2 gap-2">
+            {mode === 'points' ? (
+              <button type="button" onClick={onUndoHotspot} className="flex items-center justify-center text-center bg-slate-200 dark:bg-white/10 border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-300 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed" disabled={isLoading || hotspots.length === 0}>
+                  Undo Last Point
+              </button>
+            ) : (
+              <button type="button" onClick={onClearMask} className="flex items-center justify-center text-center bg-slate-200 dark:bg-white/10 border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-slate-300 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed" disabled={isLoading || !hasMask}>
+                  Clear Mask
+              </button>
+            )}
+            <button type="submit" className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 text-base rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none" disabled={isLoading || !(prompt.trim() || isFullyInstructed) || !hasSelection}>Generate</button>
+          </div>
+      </form>
+    </div>
+  );
+};
+
+export default RetouchPanel;
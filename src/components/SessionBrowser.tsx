@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { Session } from '../services/sessionStore';
+import { getCurrentNode } from '../utils/historyTree';
+
+interface SessionBrowserProps {
+  sessions: Session[];
+  onResume: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SessionCard: React.FC<{ session: Session } & Omit<SessionBrowserProps, 'sessions'>> = ({ session, onResume, onRename, onDuplicate, onDelete }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(session.name);
+  const cover = getCurrentNode(session.history)?.file;
+  const stepCount = Object.keys(session.history.nodes).length;
+
+  useEffect(() => {
+    if (!cover) return;
+    const objectUrl = URL.createObjectURL(cover);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [cover]);
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) onRename(session.id, name.trim());
+    setIsRenaming(false);
+  };
+
+  return (
+    <div className="bg-slate-100 dark:bg-black/20 rounded-lg border border-slate-200 dark:border-gray-700/50 overflow-hidden flex flex-col text-left">
+      <button onClick={() => onResume(session.id)} className="aspect-video w-full bg-slate-200 dark:bg-black/30 overflow-hidden" aria-label={`Resume ${session.name}`}>
+        {url && <img src={url} alt={session.name} className="w-full h-full object-cover transition-transform duration-200 hover:scale-105" />}
+      </button>
+      <div className="p-3 flex flex-col gap-2">
+        {isRenaming ? (
+          <form onSubmit={handleRenameSubmit}>
+            <input autoFocus value={name} onChange={(e) => setName(e.target.value)} onBlur={handleRenameSubmit} className="w-full bg-white dark:bg-gray-800 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none" />
+          </form>
+        ) : (
+          <p className="font-semibold text-slate-800 dark:text-gray-100 truncate" title={session.name}>{session.name}</p>
+        )}
+        <p className="text-xs text-slate-500 dark:text-gray-500">
+          {stepCount} {stepCount === 1 ? 'step' : 'steps'} · {new Date(session.updatedAt).toLocaleString()}
+        </p>
+        <div className="grid grid-cols-4 gap-1 text-xs font-semibold">
+          <button onClick={() => onResume(session.id)} className="py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-500 transition-colors">Resume</button>
+          <button onClick={() => { setName(session.name); setIsRenaming(true); }} className="py-1.5 rounded-md bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20 transition-colors">Rename</button>
+          <button onClick={() => onDuplicate(session.id)} className="py-1.5 rounded-md bg-slate-200 dark:bg-white/10 text-slate-700 dark:text-gray-200 hover:bg-slate-300 dark:hover:bg-white/20 transition-colors">Duplicate</button>
+          <button onClick={() => { if (window.confirm(`Delete "${session.name}"? This cannot be undone.`)) onDelete(session.id); }} className="py-1.5 rounded-md bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-500/20 transition-colors">Delete</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SessionBrowser: React.FC<SessionBrowserProps> = ({ sessions, ...actions }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-16 w-full">
+      <h2 className="text-2xl font-bold text-slate-800 dark:text-gray-100 mb-4 text-left">Recent Sessions</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        {sessions.map(session => <SessionCard key={session.id} session={session} {...actions} />)}
+      </div>
+    </div>
+  );
+};
+
+export default SessionBrowser;
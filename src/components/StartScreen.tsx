@@ -5,12 +5,19 @@
 
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon } from './icons';
+import SessionBrowser from './SessionBrowser';
+import type { Session } from '../services/sessionStore';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
+  sessions: Session[];
+  onResumeSession: (id: string) => void;
+  onRenameSession: (id: string, name: string) => void;
+  onDuplicateSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, sessions, onResumeSession, onRenameSession, onDuplicateSession, onDeleteSession }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -45,6 +52,14 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
             <p className="text-sm text-slate-500 dark:text-gray-500">or drag and drop a file</p>
         </div>
 
+        <SessionBrowser
+          sessions={sessions}
+          onResume={onResumeSession}
+          onRename={onRenameSession}
+          onDuplicate={onDuplicateSession}
+          onDelete={onDeleteSession}
+        />
+
         <div className="mt-16 w-full">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 <div className="bg-slate-100 dark:bg-black/20 p-6 rounded-lg border border-slate-200 dark:border-gray-700/50 flex flex-col items-center text-center">
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import HistogramDiff from './HistogramDiff';
+import { describeExpansionAnchor } from '../utils/canvasExpand';
+import { describeTransform } from '../utils/imageTransform';
+import type { EditMetadata, EditTool } from '../types';
+
+export const toolLabels: Record<EditTool, string> = {
+  upload: 'Original upload',
+  composite: 'Composite',
+  retouch: 'Retouch',
+  replace: 'Replace',
+  place: 'Place Product',
+  creative: 'Creative style',
+  adjust: 'Adjustment',
+  crop: 'Crop',
+  expand: 'Expand',
+  frame: 'Frame',
+  batch: 'Batch frame',
+  unknown: 'Unknown',
+};
+
+interface StepDetailsProps {
+  meta: EditMetadata;
+  // The step's output and input, for the histogram comparison. The first step has no input.
+  file?: File;
+  parentFile?: File;
+}
+
+// Read-only summary of how a history step was produced.
+const StepDetails: React.FC<StepDetailsProps> = ({ meta, file, parentFile }) => {
+  const rows: { label: string; value: string }[] = [
+    { label: 'Tool', value: toolLabels[meta.tool] },
+  ];
+  if (meta.prompt) rows.push({ label: meta.tone ? 'Settings' : 'Prompt', value: meta.prompt });
+  if (meta.hotspots?.length) rows.push({ label: 'Hotspots', value: meta.hotspots.map(p => p.instruction ? `(${p.x}, ${p.y}) "${p.instruction}"` : `(${p.x}, ${p.y})`).join(', ') });
+  if (meta.usedMask) rows.push({ label: 'Mask', value: 'Painted brush mask' });
+  if (meta.product) rows.push({ label: 'Product', value: meta.product });
+  if (meta.anchor) rows.push({ label: 'Anchor', value: meta.anchor.type === 'box' ? `${meta.anchor.width}×${meta.anchor.height} box at (${meta.anchor.x}, ${meta.anchor.y})` : `Point (${meta.anchor.x}, ${meta.anchor.y})` });
+  if (meta.reference) rows.push({ label: 'Reference', value: meta.reference });
+  if (meta.crop) rows.push({ label: 'Crop', value: `${meta.crop.width}×${meta.crop.height} at (${meta.crop.x}, ${meta.crop.y})` });
+  if (meta.transform) rows.push({ label: 'Transform', value: describeTransform(meta.transform) });
+  if (meta.expansion) rows.push({ label: 'Placement', value: describeExpansionAnchor(meta.expansion.anchor) });
+  if (meta.frame) {
+    rows.push({ label: 'Frame style', value: meta.frame.style });
+    if (meta.frame.topText) rows.push({ label: 'Top text', value: meta.frame.topText });
+    if (meta.frame.bottomText) rows.push({ label: 'Bottom text', value: meta.frame.bottomText });
+  }
+  if (meta.variant) rows.push({ label: 'Variant', value: `${meta.variant.index + 1} of ${meta.variant.count}` });
+  if (meta.drift) rows.push({ label: 'Drift', value: `${(meta.drift.score * 100).toFixed(1)}% of the untouched area changed${meta.drift.restored ? ' (restored)' : ''}` });
+  if (meta.recipe) rows.push({ label: 'Recipe', value: meta.recipe });
+  if (meta.model) rows.push({ label: 'Model', value: meta.model });
+  if (meta.durationMs !== undefined) rows.push({ label: 'Duration', value: `${(meta.durationMs / 1000).toFixed(1)}s` });
+  rows.push({ label: 'Created', value: new Date(meta.createdAt).toLocaleString() });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {rows.map(({ label, value }) => (
+          <React.Fragment key={label}>
+            <dt className="font-semibold text-slate-500 dark:text-gray-400 whitespace-nowrap">{label}</dt>
+            <dd className="text-slate-800 dark:text-gray-200 break-words">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      {file && parentFile && (
+        <section className="flex flex-col gap-1 pt-2 border-t border-slate-200 dark:border-gray-700">
+          <h4 className="text-xs font-bold text-slate-500 dark:text-gray-400">Histogram change</h4>
+          <HistogramDiff before={parentFile} after={file} />
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default StepDetails;
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { applyToneAdjustments } from '../utils/toneAdjust';
+import type { ToneAdjustments } from '../types';
+
+interface TonePreviewProps {
+  file: File;
+  tone: ToneAdjustments;
+}
+
+// Longest edge of the preview. Large photos are scaled down so dragging a slider stays smooth.
+const PREVIEW_MAX_SIZE = 1280;
+
+// Live preview of local adjustments, drawn over the current image. Applying
+// them renders the full-resolution image separately.
+const TonePreview: React.FC<TonePreviewProps> = ({ file, tone }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<ImageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    createImageBitmap(file)
+      .then(bitmap => {
+        const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not prepare the preview.');
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        if (!cancelled) setSource(ctx.getImageData(0, 0, canvas.width, canvas.height));
+      })
+      .catch(err => console.error('Failed to prepare the adjustment preview.', err));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Render at most once per frame, however fast the sliders move.
+  useEffect(() => {
+    if (!source) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      canvas.width = source.width;
+      canvas.height = source.height;
+      ctx.putImageData(applyToneAdjustments(source, tone), 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, tone]);
+
+  return <canvas ref={canvasRef} className={`absolute inset-0 w-full h-full pointer-events-none ${source ? '' : 'hidden'}`} aria-label="Adjustment preview" />;
+};
+
+export default TonePreview;
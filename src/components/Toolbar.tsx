@@ -4,9 +4,9 @@
 */
 
 import React from 'react';
-import { MagicWandIcon, CropIcon, SunIcon, PaletteIcon, ReplaceIcon, CompositeIcon, FrameIcon, BatchIcon } from './icons';
+import { MagicWandIcon, CropIcon, ExpandIcon, SunIcon, PaletteIcon, ReplaceIcon, PlaceIcon, CompositeIcon, FrameIcon, BatchIcon, RecipeIcon, CompareIcon } from './icons';
 
-export type Tool = 'composite' | 'retouch' | 'replace' | 'creative' | 'adjust' | 'crop' | 'frame' | 'batch';
+export type Tool = 'composite' | 'retouch' | 'replace' | 'place' | 'creative' | 'adjust' | 'crop' | 'expand' | 'frame' | 'batch' | 'recipe' | 'compare';
 
 interface ToolbarProps {
   activeTool: Tool;
@@ -18,16 +18,20 @@ const tools: { id: Tool; name: string; icon: React.FC<{className?: string}> }[]
     { id: 'composite', name: 'Composite', icon: CompositeIcon },
     { id: 'retouch', name: 'Retouch', icon: MagicWandIcon },
     { id: 'replace', name: 'Replace', icon: ReplaceIcon },
+    { id: 'place', name: 'Place', icon: PlaceIcon },
     { id: 'frame', name: 'Frame', icon: FrameIcon },
     { id: 'adjust', name: 'Adjust', icon: SunIcon },
     { id: 'creative', name: 'Creative', icon: PaletteIcon },
     { id: 'crop', name: 'Crop', icon: CropIcon },
+    { id: 'expand', name: 'Expand', icon: ExpandIcon },
     { id: 'batch', name: 'Batch', icon: BatchIcon },
+    { id: 'recipe', name: 'Recipe', icon: RecipeIcon },
+    { id: 'compare', name: 'Compare', icon: CompareIcon },
 ];
 
 const Toolbar: React.FC<ToolbarProps> = ({ activeTool, setActiveTool, isLoading }) => {
   return (
-    <aside className="w-24 bg-white/70 dark:bg-gray-800/30 border-r border-slate-200 dark:border-gray-700/80 p-2 flex flex-col items-center gap-2 backdrop-blur-sm">
+    <aside className="w-24 flex-shrink-0 overflow-y-auto bg-white/70 dark:bg-gray-800/30 border-r border-slate-200 dark:border-gray-700/80 p-2 flex flex-col items-center gap-2 backdrop-blur-sm">
       {tools.map(tool => (
         <button
           key={tool.id}
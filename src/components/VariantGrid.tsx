@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { VariantSet } from '../services/variants';
+import { CheckIcon } from './icons';
+
+const VariantCard: React.FC<{ file: File; index: number; isChosen: boolean; onToggle: () => void; }> = ({ file, index, isChosen, onToggle }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <button onClick={onToggle} className={`relative w-full rounded-xl overflow-hidden transition-all duration-200 border-4 bg-slate-200 dark:bg-black/20 ${isChosen ? 'border-blue-500 shadow-2xl' : 'border-transparent hover:border-gray-400 dark:hover:border-gray-500'}`} aria-pressed={isChosen}>
+      {url && <img src={url} alt={`Variant ${index + 1}`} className="w-full h-auto max-h-[40vh] object-contain" />}
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs font-semibold">Variant {index + 1}</span>
+      <span className={`absolute top-2 right-2 w-7 h-7 rounded-full flex items-center justify-center border-2 ${isChosen ? 'bg-blue-500 border-blue-400' : 'bg-black/50 border-white/50'}`}>
+        {isChosen && <CheckIcon className="w-4 h-4 text-white" />}
+      </span>
+    </button>
+  );
+};
+
+interface VariantGridProps {
+  variants: VariantSet;
+  // Adds the chosen variants to the history and sends the others to the discarded tray.
+  onKeep: (chosenIds: Set<string>) => void;
+}
+
+// Side-by-side comparison of the variants from one request.
+const VariantGrid: React.FC<VariantGridProps> = ({ variants, onKeep }) => {
+  const [chosenIds, setChosenIds] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setChosenIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-5xl flex flex-col gap-4 animate-fade-in">
+      <div className="px-2">
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-gray-200">Pick Your Favorites</h2>
+        <p className="text-sm text-slate-600 dark:text-gray-400">
+          Click the variants you want to keep. Each one becomes its own branch in the history; the rest go to the discarded tray.
+          {variants.failedCount > 0 && ` ${variants.failedCount} ${variants.failedCount === 1 ? 'variant' : 'variants'} could not be generated.`}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {variants.entries.map((entry, index) => (
+          <VariantCard key={entry.id} file={entry.file} index={index} isChosen={chosenIds.has(entry.id)} onToggle={() => toggle(entry.id)} />
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onKeep(chosenIds)}
+          disabled={chosenIds.size === 0}
+          className="flex-1 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          Keep Selected ({chosenIds.size})
+        </button>
+        <button onClick={() => onKeep(new Set())} className="bg-transparent border border-slate-300 dark:border-white/20 text-slate-700 dark:text-gray-200 font-semibold py-3 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-slate-200 dark:hover:bg-white/10">
+          Discard All
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariantGrid;
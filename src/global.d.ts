@@ -12,6 +12,7 @@
  */
 interface InjectedEnv {
   API_KEY: string;
+  IMAGE_PROVIDER?: string;
 }
 
 /**
@@ -36,6 +37,7 @@ declare namespace NodeJS {
 // provided by Vite, making them accessible in a type-safe manner.
 interface ImportMetaEnv {
   readonly VITE_API_KEY: string;
+  readonly VITE_IMAGE_PROVIDER?: string;
 }
 
 interface ImportMeta {
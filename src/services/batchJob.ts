@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { applyEditOperations } from './operations';
+import type { EditOperation, HistoryEntry } from '../types';
+
+// A batch job runs the same operations on many images. Every image keeps its
+// own result chain, so a batch never touches the editor's history; any result
+// can be opened in the editor as a session of its own.
+
+// `blocked` items were refused by the model's safety filters; `failed` covers everything else.
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'blocked';
+
+export interface BatchItem {
+    id: string;
+    source: File;
+    status: BatchItemStatus;
+    // One entry per operation, each built on the previous one.
+    results: HistoryEntry[];
+    error?: string;
+    // Number of tries so far, including automatic retries.
+    attempts: number;
+}
+
+export interface BatchJob {
+    id: string;
+    name: string;
+    steps: EditOperation[];
+    // Set when the steps come from a recipe, so results can be traced back to it.
+    recipeName?: string;
+    items: BatchItem[];
+    createdAt: number;
+}
+
+export const createBatchJob = (name: string, steps: EditOperation[], files: File[], recipeName?: string): BatchJob => ({
+    id: crypto.randomUUID(),
+    name,
+    steps,
+    recipeName,
+    items: files.map(source => ({ id: crypto.randomUUID(), source, status: 'pending', results: [], attempts: 0 })),
+    createdAt: Date.now(),
+});
+
+export const updateBatchItem = (job: BatchJob, itemId: string, changes: Partial<BatchItem>): BatchJob => ({
+    ...job,
+    items: job.items.map(item => item.id === itemId ? { ...item, ...changes } : item),
+});
+
+/** The final image of an item, once all of its operations have finished. */
+export const getBatchItemOutput = (item: BatchItem): HistoryEntry | null => {
+    return item.status === 'done' ? item.results[item.results.length - 1] ?? null : null;
+};
+
+/** Produces one item's results: every step of the job, applied in order to its source image. */
+export const processBatchItem = async (job: BatchJob, item: BatchItem, signal?: AbortSignal): Promise<HistoryEntry[]> => {
+    const results = await applyEditOperations(item.source, job.steps, undefined, signal);
+    if (job.recipeName) results.forEach(entry => { entry.meta.recipe = job.recipeName; });
+    return results;
+};
+
+/** Puts failed items back in the queue. Blocked items are left alone, as retrying them gives the same answer. */
+export const resetFailedItems = (job: BatchJob): BatchJob => ({
+    ...job,
+    items: job.items.map(item => item.status === 'failed' ? { ...item, status: 'pending', error: undefined, attempts: 0 } : item),
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BatchItem } from './batchJob';
+import { FinishReasonError, GenerationError, QuotaError, SafetyBlockError, isCancellation } from './errors';
+import type { HistoryEntry } from '../types';
+
+export interface BatchQueueOptions {
+    // How many items are processed at the same time.
+    concurrency: number;
+    // Automatic retries per item for transient errors, on top of the first try.
+    maxRetries: number;
+    // Delay before the first retry; it doubles on every further retry.
+    baseDelayMs: number;
+}
+
+export interface BatchQueueController {
+    pause: () => void;
+    resume: () => void;
+    // Stops the queue and aborts running items; everything unfinished goes back to pending.
+    cancel: () => void;
+    // Resolves once the queue is drained or cancelled and nothing is running.
+    done: Promise<void>;
+}
+
+const defaultOptions: BatchQueueOptions = { concurrency: 2, maxRetries: 3, baseDelayMs: 2000 };
+
+// Finish reasons that mean the output, rather than the prompt, tripped a content filter.
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']);
+
+export type BatchErrorKind = 'transient' | 'blocked' | 'failed';
+
+export const classifyBatchError = (err: unknown): BatchErrorKind => {
+    if (err instanceof SafetyBlockError) return 'blocked';
+    if (err instanceof FinishReasonError && SAFETY_FINISH_REASONS.has(err.finishReason)) return 'blocked';
+    if (err instanceof GenerationError && err.retryable) return 'transient';
+    return 'failed';
+};
+
+/**
+ * Processes items with a fixed number of workers. Transient errors are retried
+ * with exponential backoff; any other error is recorded on the item and the
+ * queue moves on. Every status change is reported through `onUpdate`.
+ */
+export const startBatchQueue = (
+    items: BatchItem[],
+    task: (item: BatchItem, signal: AbortSignal) => Promise<HistoryEntry[]>,
+    onUpdate: (itemId: string, changes: Partial<BatchItem>) => void,
+    options: Partial<BatchQueueOptions> = {},
+): BatchQueueController => {
+    const { concurrency, maxRetries, baseDelayMs } = { ...defaultOptions, ...options };
+    const queue = items.filter(item => item.status === 'pending');
+    let cancelled = false;
+    const abortController = new AbortController();
+    let resumeGate: { promise: Promise<void>; open: () => void } | null = null;
+
+    const waitWhilePaused = async () => {
+        while (resumeGate && !cancelled) await resumeGate.promise;
+    };
+
+    // Sleeps for the backoff delay, waking early if the queue is cancelled.
+    const sleepers = new Set<() => void>();
+    const sleep = (ms: number) => new Promise<void>(resolve => {
+        const wake = () => {
+            clearTimeout(timeout);
+            sleepers.delete(wake);
+            resolve();
+        };
+        const timeout = setTimeout(wake, ms);
+        sleepers.add(wake);
+    });
+
+    const processItem = async (item: BatchItem) => {
+        for (let attempt = item.attempts + 1; ; attempt++) {
+            onUpdate(item.id, { status: 'running', attempts: attempt, error: undefined });
+            try {
+                onUpdate(item.id, { status: 'done', results: await task(item, abortController.signal) });
+                return;
+            } catch (err) {
+                if (cancelled || isCancellation(err)) {
+                    onUpdate(item.id, { status: 'pending', attempts: attempt - 1 });
+                    return;
+                }
+                const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+                const kind = classifyBatchError(err);
+                const retriesUsed = attempt - item.attempts - 1;
+                if (kind !== 'transient' || retriesUsed >= maxRetries) {
+                    onUpdate(item.id, { status: kind === 'blocked' ? 'blocked' : 'failed', error: message });
+                    return;
+                }
+                // Never retry sooner than the API asked us to.
+                const retryAfterMs = err instanceof QuotaError && err.retryAfterSeconds ? err.retryAfterSeconds * 1000 : 0;
+                const delay = Math.max(baseDelayMs * 2 ** retriesUsed, retryAfterMs);
+                onUpdate(item.id, { error: `${message} Retrying in ${Math.round(delay / 1000)}s…` });
+                await sleep(delay);
+                await waitWhilePaused();
+                if (cancelled) {
+                    onUpdate(item.id, { status: 'pending', error: undefined });
+                    return;
+                }
+            }
+        }
+    };
+
+    const worker = async () => {
+        for (;;) {
+            await waitWhilePaused();
+            const item = cancelled ? undefined : queue.shift();
+            if (!item) return;
+            await processItem(item);
+        }
+    };
+
+    const done = Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker)).then(() => undefined);
+
+    return {
+        pause: () => {
+            if (resumeGate) return;
+            let open = () => {};
+            const promise = new Promise<void>(resolve => { open = resolve; });
+            resumeGate = { promise, open };
+        },
+        resume: () => {
+            const gate = resumeGate;
+            resumeGate = null;
+            gate?.open();
+        },
+        cancel: () => {
+            cancelled = true;
+            abortController.abort();
+            sleepers.forEach(wake => wake());
+            const gate = resumeGate;
+            resumeGate = null;
+            gate?.open();
+        },
+        done,
+    };
+};
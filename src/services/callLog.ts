@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageGenerationRequest, ImageProvider } from './imageProvider';
+import type { PromptTemplateRef } from './promptTemplates';
+import { isCancellation } from './errors';
+
+// An in-memory record of every model call made in this tab, for the debug
+// panel. Nothing is persisted; reloading the page starts a fresh log.
+
+export interface ModelCallPart {
+    role: 'image' | 'mask' | 'reference';
+    name: string;
+    mimeType: string;
+    bytes: number;
+    // Filled in once the image has been decoded, which happens alongside the call.
+    width?: number;
+    height?: number;
+}
+
+/** Details only the provider can see in the raw response. */
+export interface ModelResponseDetails {
+    finishReason?: string;
+    promptFeedback?: unknown;
+    textParts?: string[];
+}
+
+export interface ModelCall extends ModelResponseDetails {
+    id: string;
+    startedAt: number;
+    provider: string;
+    model: string;
+    operation: string;
+    prompt: string;
+    template?: PromptTemplateRef;
+    parts: ModelCallPart[];
+    status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+    durationMs?: number;
+    // The generated image as a `data:` URL.
+    outputImage?: string;
+    error?: string;
+}
+
+// Calls beyond this are dropped oldest first; each one holds a full output image.
+const MAX_CALLS = 50;
+
+let calls: ModelCall[] = [];
+const listeners = new Set<() => void>();
+// Lets a provider attach response details to the call its request belongs to.
+const callIdsByRequest = new WeakMap<ImageGenerationRequest, string>();
+
+const updateCall = (id: string, changes: Partial<ModelCall>) => {
+    calls = calls.map(call => call.id === id ? { ...call, ...changes } : call);
+    listeners.forEach(listener => listener());
+};
+
+/** Newest first. The array is replaced on every change, so it can be used as a snapshot. */
+export const getModelCalls = (): ModelCall[] => calls;
+
+export const subscribeToModelCalls = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const clearModelCalls = (): void => {
+    calls = [];
+    listeners.forEach(listener => listener());
+};
+
+export const annotateModelCall = (request: ImageGenerationRequest, details: ModelResponseDetails): void => {
+    const id = callIdsByRequest.get(request);
+    if (id) updateCall(id, details);
+};
+
+const describeParts = (request: ImageGenerationRequest): { part: ModelCallPart; file: File }[] => {
+    const files: { role: ModelCallPart['role']; file: File }[] = [
+        ...request.images.map(file => ({ role: 'image' as const, file })),
+        ...(request.mask ? [{ role: 'mask' as const, file: request.mask }] : []),
+        ...(request.references ?? []).map(file => ({ role: 'reference' as const, file })),
+    ];
+    return files.map(({ role, file }) => ({ file, part: { role, name: file.name, mimeType: file.type, bytes: file.size } }));
+};
+
+/** Runs `generate` for a provider call and records it in the log. */
+export const recordModelCall = async (provider: ImageProvider, request: ImageGenerationRequest, generate: () => Promise<string>): Promise<string> => {
+    const id = crypto.randomUUID();
+    const described = describeParts(request);
+    const call: ModelCall = {
+        id,
+        startedAt: Date.now(),
+        provider: provider.name,
+        model: provider.model,
+        operation: request.operation,
+        prompt: request.prompt,
+        template: request.template,
+        parts: described.map(({ part }) => part),
+        status: 'running',
+    };
+    calls = [call, ...calls].slice(0, MAX_CALLS);
+    callIdsByRequest.set(request, id);
+    listeners.forEach(listener => listener());
+
+    Promise.all(described.map(async ({ part, file }) => {
+        const bitmap = await createImageBitmap(file);
+        const size = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        return { ...part, ...size };
+    })).then(parts => updateCall(id, { parts }), () => { /* Sizes stay unknown for files that cannot be decoded. */ });
+
+    const startedAt = performance.now();
+    try {
+        const outputImage = await generate();
+        updateCall(id, { status: 'succeeded', durationMs: Math.round(performance.now() - startedAt), outputImage });
+        return outputImage;
+    } catch (err) {
+        updateCall(id, {
+            status: isCancellation(err) ? 'cancelled' : 'failed',
+            durationMs: Math.round(performance.now() - startedAt),
+            error: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+    }
+};
+
+/** A call as plain JSON for bug reports. The output image is summarized rather than embedded. */
+export const modelCallToJson = (call: ModelCall) => {
+    const { outputImage, ...rest } = call;
+    const mimeType = outputImage?.match(/^data:(.*?);/)?.[1];
+    return {
+        ...rest,
+        startedAt: new Date(call.startedAt).toISOString(),
+        outputImage: outputImage ? { mimeType, base64Length: outputImage.length - outputImage.indexOf(',') - 1 } : undefined,
+    };
+};
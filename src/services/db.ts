@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Thin promise wrapper around the browser's IndexedDB API. All locally persisted
+// data lives in a single database; each feature owns one object store.
+
+const DB_NAME = 'dreamcraft';
+const DB_VERSION = 2;
+
+export const SESSION_STORE = 'sessions';
+export const PRODUCT_STORE = 'products';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let isBlocked = false;
+const blockedListeners = new Set<() => void>();
+
+const setBlocked = (blocked: boolean) => {
+    if (isBlocked === blocked) return;
+    isBlocked = blocked;
+    blockedListeners.forEach(listener => listener());
+};
+
+/**
+ * Whether opening the database is waiting for another tab, still on an older
+ * version, to let go of it. Reads and writes resume once that tab is closed
+ * or reloaded.
+ */
+export const isDatabaseBlocked = (): boolean => isBlocked;
+
+export const subscribeToDatabaseBlocked = (listener: () => void): (() => void) => {
+    blockedListeners.add(listener);
+    return () => blockedListeners.delete(listener);
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(PRODUCT_STORE)) {
+                    db.createObjectStore(PRODUCT_STORE, { keyPath: 'id' });
+                }
+            };
+            // An upgrade waits until every other tab has closed its connection to the old
+            // version. The request stays pending meanwhile and succeeds once they have.
+            request.onblocked = () => setBlocked(true);
+            request.onsuccess = () => {
+                const db = request.result;
+                setBlocked(false);
+                // Close this connection when a newer version opens in another tab, so that tab isn't blocked in turn.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                setBlocked(false);
+                dbPromise = null;
+                reject(request.error ?? new Error('Could not open the local database.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('A local database request failed.'));
+});
+
+// Writes are only durable once their transaction commits; a request can succeed and still be rolled back.
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('A local database request failed.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('A local database write was aborted.'));
+});
+
+export const getRecord = async <T>(storeName: string, key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    return requestToPromise<T | undefined>(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+export const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+    const db = await openDb();
+    return requestToPromise<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+export const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    await transactionToPromise(transaction);
+};
+
+export const deleteRecord = async (storeName: string, key: string): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(key);
+    await transactionToPromise(transaction);
+};
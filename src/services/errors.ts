@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Errors raised while generating an image. Each kind has its own class so the
+// UI can suggest a fix and the batch queue can decide whether to retry. The
+// raw provider payload (a model response or an API error body) is kept on
+// `response` for debugging.
+
+export type GenerationErrorKind = 'safety' | 'finishReason' | 'textResponse' | 'quota' | 'network' | 'invalidKey';
+
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    readonly response: unknown;
+    // Whether trying the same request again later can succeed.
+    readonly retryable: boolean;
+    // The underlying exception, if this error wraps one.
+    readonly cause: unknown;
+
+    constructor(kind: GenerationErrorKind, message: string, options: { response?: unknown; cause?: unknown; retryable?: boolean } = {}) {
+        super(message);
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.response = options.response;
+        this.retryable = options.retryable ?? false;
+        this.cause = options.cause;
+    }
+}
+
+/** The prompt or an input image was refused by the safety filters. */
+export class SafetyBlockError extends GenerationError {
+    readonly reason: string;
+
+    constructor(reason: string, message: string, response?: unknown) {
+        super('safety', message, { response });
+        this.name = 'SafetyBlockError';
+        this.reason = reason;
+    }
+}
+
+/** Generation started but ended early with a finish reason other than STOP. */
+export class FinishReasonError extends GenerationError {
+    readonly finishReason: string;
+
+    constructor(finishReason: string, message: string, response?: unknown) {
+        super('finishReason', message, { response });
+        this.name = 'FinishReasonError';
+        this.finishReason = finishReason;
+    }
+}
+
+/** The model answered with text instead of an image. */
+export class TextResponseError extends GenerationError {
+    readonly text: string | null;
+
+    constructor(text: string | null, message: string, response?: unknown) {
+        super('textResponse', message, { response });
+        this.name = 'TextResponseError';
+        this.text = text;
+    }
+}
+
+/** Rate limit or quota exhausted. `retryAfterSeconds` is set when the API says when to try again. */
+export class QuotaError extends GenerationError {
+    readonly retryAfterSeconds: number | null;
+
+    constructor(message: string, retryAfterSeconds: number | null, response?: unknown, cause?: unknown) {
+        super('quota', message, { response, cause, retryable: true });
+        this.name = 'QuotaError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/** The request did not reach the service, or the service was temporarily unavailable. */
+export class NetworkError extends GenerationError {
+    constructor(message: string, response?: unknown, cause?: unknown) {
+        super('network', message, { response, cause, retryable: true });
+        this.name = 'NetworkError';
+    }
+}
+
+/** The API key is missing, malformed or lacks permission. */
+export class InvalidApiKeyError extends GenerationError {
+    constructor(message: string, response?: unknown, cause?: unknown) {
+        super('invalidKey', message, { response, cause });
+        this.name = 'InvalidApiKeyError';
+    }
+}
+
+/** The user cancelled the request. This is not a failure and is never shown as an error. */
+export class CancelledError extends Error {
+    constructor(message = 'The request was cancelled.') {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
+export const isCancellation = (err: unknown): boolean => {
+    return err instanceof CancelledError || (err instanceof Error && err.name === 'AbortError');
+};
+
+export const throwIfCancelled = (signal?: AbortSignal): void => {
+    if (signal?.aborted) throw new CancelledError();
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { recordModelCall } from './callLog';
+import type { PromptTemplateRef } from './promptTemplates';
+import type { Hotspot, RegionAnchor } from '../types';
+
+export type ImageOperation = 'edit' | 'replace' | 'place' | 'filter' | 'adjustment' | 'expand' | 'frame' | 'composite';
+
+/**
+ * A single image-generation call, described independently of any backend.
+ * `prompt` is the fully built instruction text; the remaining fields carry the
+ * structured inputs it was built from, so providers that do not understand
+ * natural language (such as the local mock) can still act on them.
+ */
+export interface ImageGenerationRequest {
+    operation: ImageOperation;
+    prompt: string;
+    // The template variant `prompt` was rendered from, for the call log.
+    template?: PromptTemplateRef;
+    userPrompt: string;
+    images: File[];
+    // Whether the instruction text is sent before the images rather than after them.
+    promptFirst?: boolean;
+    hotspots?: Hotspot[];
+    // Black and white edit mask, sent as an extra image part after `images`.
+    mask?: File;
+    anchor?: RegionAnchor;
+    // Pictures of the object to replace with or place, sent as the last image parts.
+    references?: File[];
+    frame?: { topText: string; bottomText: string };
+    // Aborting it cancels the call; the returned promise then rejects with a `CancelledError`.
+    signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+    id: string;
+    name: string;
+    model: string;
+    /** Resolves to a `data:` URL of the generated image. */
+    generateImage: (request: ImageGenerationRequest) => Promise<string>;
+}
+
+const providers: ImageProvider[] = [geminiProvider, mockProvider];
+
+const PROVIDER_STORAGE_KEY = 'imageProvider';
+
+export const listImageProviders = (): ImageProvider[] => providers;
+
+/**
+ * Resolves the active provider. A choice saved in localStorage wins over the
+ * build-time `VITE_IMAGE_PROVIDER` variable, which wins over the runtime-injected
+ * `IMAGE_PROVIDER`; Gemini is the default.
+ */
+export const getImageProvider = (): ImageProvider => {
+    const injected = window.injectedEnv?.IMAGE_PROVIDER;
+    const requestedId = localStorage.getItem(PROVIDER_STORAGE_KEY)
+        || import.meta.env.VITE_IMAGE_PROVIDER
+        || (injected && injected !== '${IMAGE_PROVIDER}' ? injected : undefined);
+    const provider = providers.find(p => p.id === requestedId) ?? geminiProvider;
+    // Every call goes through the debug log.
+    return { ...provider, generateImage: request => recordModelCall(provider, request, () => provider.generateImage(request)) };
+};
+
+export const setImageProvider = (id: string | null): void => {
+    if (id && !providers.some(p => p.id === id)) {
+        throw new Error(`Unknown image provider: ${id}`);
+    }
+    if (id) {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } else {
+        localStorage.removeItem(PROVIDER_STORAGE_KEY);
+    }
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describeReplacement, generateAdjustedImage, generateExpandedImage, generateFilteredImage, generateFramedImage, generateReplacedImage } from './geminiService';
+import { cropImageFile, cropImageFileToAspect, dataURLtoFile } from '../utils/imageUtils';
+import { createEditMetadata, withGenerationStats } from '../utils/editMetadata';
+import { applyToneToFile, describeToneAdjustments } from '../utils/toneAdjust';
+import { describeExpansion } from '../utils/canvasExpand';
+import { describeTransform } from '../utils/imageTransform';
+import { throwIfCancelled } from './errors';
+import type { EditOperation, HistoryEntry } from '../types';
+
+/**
+ * Applies a single image-independent operation to a file. This is the shared
+ * path for anything that replays edits outside the interactive tool panels.
+ */
+export const applyEditOperation = async (file: File, operation: EditOperation, signal?: AbortSignal): Promise<HistoryEntry> => {
+    switch (operation.tool) {
+        case 'creative': {
+            const { result, model, durationMs } = await withGenerationStats(() => generateFilteredImage(file, operation.prompt, signal));
+            return { file: dataURLtoFile(result, `styled-${Date.now()}.png`), meta: createEditMetadata('creative', operation.prompt, { model, durationMs }) };
+        }
+        case 'adjust': {
+            const { result, model, durationMs } = await withGenerationStats(() => generateAdjustedImage(file, operation.prompt, signal));
+            return { file: dataURLtoFile(result, `adjusted-${Date.now()}.png`), meta: createEditMetadata('adjust', operation.prompt, { model, durationMs }) };
+        }
+        case 'replace': {
+            const { target, replacement } = operation;
+            const { result, model, durationMs } = await withGenerationStats(() => generateReplacedImage(file, target, replacement, null, null, signal));
+            return { file: dataURLtoFile(result, `replaced-${Date.now()}.png`), meta: createEditMetadata('replace', describeReplacement(target, replacement), { replaced: { target, replacement }, model, durationMs }) };
+        }
+        case 'frame': {
+            const { style, topText, bottomText } = operation.frame;
+            const { result, model, durationMs } = await withGenerationStats(() => generateFramedImage(file, style, topText, bottomText, signal));
+            return { file: dataURLtoFile(result, `framed-${Date.now()}.png`), meta: createEditMetadata('frame', style, { frame: operation.frame, model, durationMs }) };
+        }
+        case 'expand': {
+            const { result, model, durationMs } = await withGenerationStats(() => generateExpandedImage(file, operation.expansion, signal));
+            return { file: dataURLtoFile(result, `expanded-${Date.now()}.png`), meta: createEditMetadata('expand', describeExpansion(operation.expansion), { expansion: operation.expansion, model, durationMs }) };
+        }
+        case 'tone': {
+            const adjusted = await applyToneToFile(file, operation.tone);
+            return { file: adjusted, meta: createEditMetadata('adjust', describeToneAdjustments(operation.tone), { tone: operation.tone }) };
+        }
+        case 'crop': {
+            const cropped = await cropImageFile(file, operation.rect, operation.transform);
+            return { file: cropped, meta: createEditMetadata('crop', '', { relativeCrop: operation.rect, transform: operation.transform }) };
+        }
+        case 'centerCrop': {
+            const cropped = await cropImageFileToAspect(file, operation.aspect);
+            return { file: cropped, meta: createEditMetadata('crop', `Center crop ${operation.label}`) };
+        }
+    }
+};
+
+/**
+ * Applies operations in order, each to the previous one's output. `onStep` is
+ * called as soon as a step finishes, so callers can keep partial results if a
+ * later step fails.
+ */
+export const applyEditOperations = async (
+    file: File,
+    operations: EditOperation[],
+    onStep?: (entry: HistoryEntry, stepIndex: number) => void,
+    signal?: AbortSignal,
+): Promise<HistoryEntry[]> => {
+    const entries: HistoryEntry[] = [];
+    let input = file;
+    for (const [index, operation] of operations.entries()) {
+        throwIfCancelled(signal);
+        const entry = await applyEditOperation(input, operation, signal);
+        // The local work after a model call takes a moment; a cancel during it still counts.
+        throwIfCancelled(signal);
+        entries.push(entry);
+        onStep?.(entry, index);
+        input = entry.file;
+    }
+    return entries;
+};
+
+/** Short human-readable label for an operation, used in recipe and batch listings. */
+export const describeOperation = (operation: EditOperation): string => {
+    switch (operation.tool) {
+        case 'creative': return `Creative style: ${operation.prompt}`;
+        case 'adjust': return `Adjustment: ${operation.prompt}`;
+        case 'replace': return describeReplacement(operation.target, operation.replacement);
+        case 'frame': return `Frame: ${operation.frame.style}`;
+        case 'expand': return describeExpansion(operation.expansion);
+        case 'tone': return `Local adjustment: ${describeToneAdjustments(operation.tone)}`;
+        case 'crop': {
+            const percent = (value: number) => `${Math.round(value * 100)}%`;
+            const crop = `Crop: ${percent(operation.rect.width)} × ${percent(operation.rect.height)} at (${percent(operation.rect.x)}, ${percent(operation.rect.y)})`;
+            return operation.transform ? `${crop}, ${describeTransform(operation.transform).toLowerCase()}` : crop;
+        }
+        case 'centerCrop': return `Center crop: ${operation.label}`;
+    }
+};
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// What happens to images on their way out of the app: whether model results
+// are scaled back to the size of the image they were made from, and how
+// downloads are encoded. The choice is kept in localStorage, like the
+// provider choice, so services can read it without it being passed down.
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface OutputPolicy {
+    // Scale results of size-preserving edits back to the input's dimensions, when their shape matches.
+    matchSourceSize: boolean;
+    // Copy the original upload's EXIF block into downloads, where the format can carry it.
+    keepMetadata: boolean;
+    format: ExportFormat;
+    // 0–1, used by the lossy formats only.
+    quality: number;
+}
+
+export interface ExportFormatInfo {
+    id: ExportFormat;
+    label: string;
+    mimeType: string;
+    extension: string;
+    lossy: boolean;
+    // Whether an EXIF block can be written into files of this format.
+    carriesMetadata: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, carriesMetadata: true },
+    { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, carriesMetadata: true },
+    { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, carriesMetadata: false },
+    { id: 'avif', label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, carriesMetadata: false },
+];
+
+// Results are kept as the model returns them until the user opts in to resizing.
+export const DEFAULT_OUTPUT_POLICY: OutputPolicy = { matchSourceSize: false, keepMetadata: false, format: 'png', quality: 0.92 };
+
+const STORAGE_KEY = 'outputPolicy';
+
+export const getExportFormat = (id: ExportFormat): ExportFormatInfo =>
+    EXPORT_FORMATS.find(format => format.id === id) ?? EXPORT_FORMATS[0];
+
+export const getOutputPolicy = (): OutputPolicy => {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_OUTPUT_POLICY;
+    try {
+        const parsed = JSON.parse(raw) as Partial<OutputPolicy>;
+        return {
+            matchSourceSize: typeof parsed.matchSourceSize === 'boolean' ? parsed.matchSourceSize : DEFAULT_OUTPUT_POLICY.matchSourceSize,
+            keepMetadata: typeof parsed.keepMetadata === 'boolean' ? parsed.keepMetadata : DEFAULT_OUTPUT_POLICY.keepMetadata,
+            format: EXPORT_FORMATS.some(format => format.id === parsed.format) ? parsed.format as ExportFormat : DEFAULT_OUTPUT_POLICY.format,
+            quality: typeof parsed.quality === 'number' && parsed.quality > 0 && parsed.quality <= 1 ? parsed.quality : DEFAULT_OUTPUT_POLICY.quality,
+        };
+    } catch (err) {
+        console.error('Ignoring unreadable output settings.', err);
+        return DEFAULT_OUTPUT_POLICY;
+    }
+};
+
+export const setOutputPolicy = (policy: OutputPolicy): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PRODUCT_STORE, deleteRecord, getAllRecords, putRecord } from './db';
+
+/**
+ * A product the Place Product tool can insert into images. Like session images,
+ * the reference photos are stored as `File` objects directly in IndexedDB.
+ */
+export interface Product {
+    id: string;
+    name: string;
+    description: string;
+    images: File[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+// More photos rarely help the model and make every request larger.
+export const MAX_PRODUCT_IMAGES = 4;
+
+export const createProductId = (): string => crypto.randomUUID();
+
+export const listProducts = async (): Promise<Product[]> => {
+    const products = await getAllRecords<Product>(PRODUCT_STORE);
+    return products.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveProduct = async (product: Product): Promise<void> => {
+    if (!product.name.trim()) throw new Error('A product needs a name.');
+    if (product.images.length === 0) throw new Error('A product needs at least one image.');
+    await putRecord(PRODUCT_STORE, { ...product, images: product.images.slice(0, MAX_PRODUCT_IMAGES) });
+};
+
+export const deleteProduct = (id: string): Promise<void> => deleteRecord(PRODUCT_STORE, id);
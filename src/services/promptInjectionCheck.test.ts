@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ADVERSARIAL_INPUTS, PROMPT_FIELDS, checkBuiltInPrompts, checkPromptTemplate } from './promptInjectionCheck';
+import { listPromptTemplates, type PromptTemplateId } from './promptTemplates';
+import { renderTemplate } from '../utils/promptTemplate';
+import { sanitizePromptText } from '../utils/promptText';
+
+const builtInBody = (templateId: PromptTemplateId): string => {
+    const template = listPromptTemplates().find(candidate => candidate.id === templateId);
+    if (!template) throw new Error(`No built-in template "${templateId}".`);
+    return template.body;
+};
+
+// Every line holding the text has it between a pair of double quotes.
+const expectQuoted = (prompt: string, text: string) => {
+    for (const line of prompt.split('\n').filter(candidate => candidate.includes(text))) {
+        const index = line.indexOf(text);
+        expect(line.slice(0, index).split('"').length % 2, line).toBe(0);
+        expect(line.slice(index + text.length), line).toContain('"');
+    }
+};
+
+describe('checkBuiltInPrompts', () => {
+    it('finds no problems in the built-in prompts', () => {
+        expect(checkBuiltInPrompts()).toEqual([]);
+    });
+});
+
+describe.each(PROMPT_FIELDS)('the $templateId template\'s $field', ({ templateId, field, build }) => {
+    const body = builtInBody(templateId);
+    const benign = renderTemplate(body, build('sample text'));
+
+    it.each(ADVERSARIAL_INPUTS)('is neutralized: %j', input => {
+        const sanitized = sanitizePromptText(input);
+        const rendered = renderTemplate(body, build(input));
+        expect(sanitized).not.toMatch(/["\r\n\u2028\u2029]/);
+        if (!sanitized) {
+            expect(rendered).toBe(renderTemplate(body, build('')));
+            return;
+        }
+        expect(rendered.split('\n')).toHaveLength(benign.split('\n').length);
+        expectQuoted(rendered, sanitized);
+    });
+
+    // An extra quote before each variable puts the text outside its quotes, whether
+    // the template or the variable's builder (as for point instructions) adds them.
+    it('is reported when the template leaves it unquoted', () => {
+        const unquoted = body.replace(/\{\{(\w+)\}\}/g, '"{{$1}}');
+        const problems = checkPromptTemplate(templateId, unquoted);
+        expect(problems).toContainEqual({ field, message: `The ${field} is not between double quotes, so it can be mistaken for instructions.` });
+    });
+});
+
+describe('checkPromptTemplate', () => {
+    it('reports a field an input can break out of', () => {
+        // An unbalanced quote before the field lets the input's text run on as instructions.
+        const problems = checkPromptTemplate('filter', 'Style Request: ""{{userPrompt}}"');
+        expect(problems).not.toEqual([]);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { defaultPromptTemplates, type PromptTemplateDefinition, type PromptTemplateId } from './defaultPrompts';
+import { renderTemplate, type TemplateVariables } from '../utils/promptTemplate';
+
+export type { PromptTemplateId } from './defaultPrompts';
+
+// The prompt registry. Each operation has a template with a read-only built-in
+// variant and any number of custom variants edited in the app. Every call picks
+// one of the variants in the template's rotation at random, so two wordings can
+// be A/B tested side by side. Custom variants and rotations are kept in
+// localStorage, like the provider choice.
+
+export const BUILT_IN_VARIANT_ID = 'builtin';
+
+export interface PromptVariant {
+    id: string;
+    templateId: PromptTemplateId;
+    name: string;
+    body: string;
+    // Increases by one every time the body is saved.
+    version: number;
+    updatedAt: number;
+    // Earlier bodies, newest first, so an edit can be rolled back.
+    previousVersions: { version: number; body: string; updatedAt: number }[];
+}
+
+/** Which variant produced a prompt, recorded with the model call. */
+export interface PromptTemplateRef {
+    templateId: PromptTemplateId;
+    variantId: string;
+    variantName: string;
+    version: number;
+}
+
+interface StoredPromptTemplates {
+    variants: PromptVariant[];
+    rotations: Partial<Record<PromptTemplateId, string[]>>;
+}
+
+const STORAGE_KEY = 'promptTemplates';
+const MAX_PREVIOUS_VERSIONS = 10;
+
+const readStore = (): StoredPromptTemplates => {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { variants: [], rotations: {} };
+    try {
+        const parsed = JSON.parse(raw) as Partial<StoredPromptTemplates>;
+        return { variants: parsed.variants ?? [], rotations: parsed.rotations ?? {} };
+    } catch (err) {
+        console.error('Ignoring unreadable custom prompt templates.', err);
+        return { variants: [], rotations: {} };
+    }
+};
+
+const writeStore = (store: StoredPromptTemplates): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+const getDefinition = (templateId: PromptTemplateId): PromptTemplateDefinition => {
+    const definition = defaultPromptTemplates.find(template => template.id === templateId);
+    if (!definition) throw new Error(`Unknown prompt template: ${templateId}`);
+    return definition;
+};
+
+const builtInVariant = (definition: PromptTemplateDefinition): PromptVariant => ({
+    id: BUILT_IN_VARIANT_ID,
+    templateId: definition.id,
+    name: 'Built-in',
+    body: definition.body,
+    version: 1,
+    updatedAt: 0,
+    previousVersions: [],
+});
+
+export const listPromptTemplates = (): PromptTemplateDefinition[] => defaultPromptTemplates;
+
+/** The built-in variant first, then custom ones in the order they were created. */
+export const listPromptVariants = (templateId: PromptTemplateId): PromptVariant[] => [
+    builtInVariant(getDefinition(templateId)),
+    ...readStore().variants.filter(variant => variant.templateId === templateId),
+];
+
+/** Ids of the variants calls are currently spread across. Never empty. */
+export const getPromptRotation = (templateId: PromptTemplateId): string[] => {
+    const variantIds = new Set(listPromptVariants(templateId).map(variant => variant.id));
+    const rotation = (readStore().rotations[templateId] ?? []).filter(id => variantIds.has(id));
+    return rotation.length > 0 ? rotation : [BUILT_IN_VARIANT_ID];
+};
+
+export const setPromptRotation = (templateId: PromptTemplateId, variantIds: string[]): void => {
+    if (variantIds.length === 0) throw new Error('At least one variant must stay in rotation.');
+    const store = readStore();
+    writeStore({ ...store, rotations: { ...store.rotations, [templateId]: variantIds } });
+};
+
+export const createPromptVariant = (templateId: PromptTemplateId, name: string, body: string): PromptVariant => {
+    const store = readStore();
+    const variant: PromptVariant = { id: crypto.randomUUID(), templateId, name, body, version: 1, updatedAt: Date.now(), previousVersions: [] };
+    writeStore({ ...store, variants: [...store.variants, variant] });
+    return variant;
+};
+
+/** Saves a custom variant's name and body. A changed body becomes a new version. */
+export const updatePromptVariant = (id: string, changes: { name: string; body: string }): PromptVariant => {
+    if (id === BUILT_IN_VARIANT_ID) throw new Error('The built-in prompt cannot be changed. Duplicate it instead.');
+    const store = readStore();
+    const existing = store.variants.find(variant => variant.id === id);
+    if (!existing) throw new Error('That prompt variant no longer exists.');
+    const bodyChanged = changes.body !== existing.body;
+    const updated: PromptVariant = bodyChanged
+        ? {
+            ...existing,
+            ...changes,
+            version: existing.version + 1,
+            updatedAt: Date.now(),
+            previousVersions: [{ version: existing.version, body: existing.body, updatedAt: existing.updatedAt }, ...existing.previousVersions].slice(0, MAX_PREVIOUS_VERSIONS),
+        }
+        : { ...existing, name: changes.name };
+    writeStore({ ...store, variants: store.variants.map(variant => variant.id === id ? updated : variant) });
+    return updated;
+};
+
+export const deletePromptVariant = (id: string): void => {
+    if (id === BUILT_IN_VARIANT_ID) throw new Error('The built-in prompt cannot be deleted.');
+    const store = readStore();
+    const rotations = Object.fromEntries(Object.entries(store.rotations).map(([templateId, ids]) => [templateId, ids?.filter(variantId => variantId !== id)]));
+    writeStore({ variants: store.variants.filter(variant => variant.id !== id), rotations });
+};
+
+/** Fills in a template, using a variant picked at random from its rotation. */
+export const renderPrompt = (templateId: PromptTemplateId, variables: TemplateVariables): { prompt: string; template: PromptTemplateRef } => {
+    const rotation = getPromptRotation(templateId);
+    const variantId = rotation[Math.floor(Math.random() * rotation.length)];
+    const variant = listPromptVariants(templateId).find(candidate => candidate.id === variantId) ?? builtInVariant(getDefinition(templateId));
+    return {
+        prompt: renderTemplate(variant.body, variables),
+        template: { templateId, variantId: variant.id, variantName: variant.name, version: variant.version },
+    };
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { sanitizePromptText } from '../utils/promptText';
+import type { TemplateVariables } from '../utils/promptTemplate';
+import { expansionMargins, type ExpansionLayout } from '../utils/canvasExpand';
+import type { Hotspot, RegionAnchor } from '../types';
+
+// The variables each prompt template is filled in with. Every user-controlled
+// field is passed through `sanitizePromptText` here, so the templates can put
+// it between double quotes without it escaping them. Kept free of side effects
+// so `promptInjectionCheck` can build exactly what the service sends.
+
+const formatPoint = (point: { x: number; y: number }) => `(x: ${point.x}, y: ${point.y})`;
+
+const formatBox = (box: { x: number; y: number; width: number; height: number }) =>
+    `from (x: ${box.x}, y: ${box.y}) to (x: ${box.x + box.width}, y: ${box.y + box.height})`;
+
+export const editPromptVariables = (userPrompt: string, hotspots: Hotspot[], hasMask: boolean): TemplateVariables => {
+    const request = sanitizePromptText(userPrompt);
+    // With an instruction on any point, every point is listed with its own edit; points without one use the general request.
+    const instructions = hotspots.map(p => sanitizePromptText(p.instruction ?? ''));
+    const hasPointInstructions = instructions.some(Boolean);
+    return {
+        userPrompt: request,
+        mask: hasMask ? 'yes' : '',
+        hotspots: hasPointInstructions ? '' : hotspots.map(formatPoint).join(', '),
+        pointEdits: hasPointInstructions ? hotspots.map((p, i) => `${i + 1}. At ${formatPoint(p)}: "${instructions[i] || request}"`).join('\n') : '',
+    };
+};
+
+export const replacePromptVariables = (target: string, replacement: string, anchor: RegionAnchor | null | undefined, hasReference: boolean): TemplateVariables => {
+    const safeTarget = sanitizePromptText(target);
+    const safeReplacement = sanitizePromptText(replacement);
+    return {
+        userPrompt: `Replace the ${safeTarget} with a ${safeReplacement}.`,
+        target: safeTarget,
+        replacement: safeReplacement,
+        box: anchor?.type === 'box' ? formatBox(anchor) : '',
+        point: anchor?.type === 'point' ? formatPoint(anchor) : '',
+        reference: hasReference ? 'yes' : '',
+    };
+};
+
+export const placePromptVariables = (product: { name: string; description: string }, imageCount: number, anchor: RegionAnchor, instructions: string): TemplateVariables => ({
+    productName: sanitizePromptText(product.name),
+    productDescription: sanitizePromptText(product.description),
+    productImages: imageCount === 1 ? 'The second image shows' : `The last ${imageCount} images show`,
+    location: anchor.type === 'box'
+        ? `inside the box ${formatBox(anchor)} in pixel coordinates, filling it naturally`
+        : `at pixel coordinates ${formatPoint(anchor)}`,
+    instructions: sanitizePromptText(instructions),
+});
+
+export const filterPromptVariables = (stylePrompt: string): TemplateVariables => ({ userPrompt: sanitizePromptText(stylePrompt) });
+
+export const adjustmentPromptVariables = (adjustmentPrompt: string): TemplateVariables => ({ userPrompt: sanitizePromptText(adjustmentPrompt) });
+
+export const expandPromptVariables = (layout: ExpansionLayout): TemplateVariables => {
+    const margins = expansionMargins(layout);
+    const sides = (['left', 'right', 'top', 'bottom'] as const).filter(side => margins[side] > 0);
+    return {
+        width: String(layout.width),
+        height: String(layout.height),
+        original: formatBox({ x: layout.x, y: layout.y, width: layout.sourceWidth, height: layout.sourceHeight }),
+        sides: sides.length > 1 ? `the ${sides.slice(0, -1).join(', ')} and ${sides[sides.length - 1]}` : `the ${sides[0] ?? 'edges'}`,
+    };
+};
+
+export const framePromptVariables = (frameStyle: string, topText: string, bottomText: string): TemplateVariables => ({
+    frameStyle: sanitizePromptText(frameStyle),
+    topText: sanitizePromptText(topText),
+    bottomText: sanitizePromptText(bottomText),
+});
+
+export const compositePromptVariables = (imageCount: number): TemplateVariables => ({ imageCount: String(imageCount) });
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import type { ImageGenerationRequest, ImageProvider } from '../imageProvider';
+import { annotateModelCall } from '../callLog';
+import { CancelledError, FinishReasonError, GenerationError, InvalidApiKeyError, NetworkError, QuotaError, SafetyBlockError, TextResponseError, isCancellation, throwIfCancelled } from '../errors';
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+let ai: GoogleGenAI | null = null;
+
+/**
+ * Lazily initializes and returns the GoogleGenAI client.
+ * This ensures the API key is read from process.env *after* it has been
+ * polyfilled at the application's entry point, preventing a startup crash.
+ */
+const getAiClient = (): GoogleGenAI => {
+    if (!ai) {
+        if (!process.env.API_KEY) {
+            const errorMsg = "FATAL: Gemini API key is not configured. The application cannot start. Please ensure VITE_API_KEY is set in your .env.local file and that the development server has been restarted.";
+            console.error(errorMsg);
+            // Also alert the user, as console errors can be missed during startup.
+            alert(errorMsg);
+            throw new InvalidApiKeyError(errorMsg);
+        }
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return ai;
+};
+
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+const handleApiResponse = (
+    response: GenerateContentResponse,
+    context: string
+): string => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        console.error(errorMessage, { response });
+        throw new SafetyBlockError(blockReason, errorMessage, response);
+    }
+
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        console.error(errorMessage, { response });
+        throw new FinishReasonError(finishReason, errorMessage, response);
+    }
+
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image for the ${context}. ` +
+        (textFeedback
+            ? `The model responded with text: "${textFeedback}"`
+            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
+
+    console.error(`Model response did not contain an image part for ${context}.`, { response });
+    throw new TextResponseError(textFeedback || null, errorMessage, response);
+};
+
+// Extracts the suggested wait from a rate-limit error body, e.g. `"retryDelay": "36s"`.
+const parseRetryDelay = (message: string): number | null => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(Number(match[1])) : null;
+};
+
+/** Maps a failed API call to the matching typed error. */
+const toGenerationError = (err: unknown, signal?: AbortSignal): unknown => {
+    if (err instanceof GenerationError) return err;
+    if (signal?.aborted || isCancellation(err)) return new CancelledError();
+    if (err instanceof ApiError) {
+        if (err.status === 429) {
+            const retryAfter = parseRetryDelay(err.message);
+            return new QuotaError(`The API rate limit or quota was exceeded${retryAfter ? `. Try again in ${retryAfter} seconds` : ''}.`, retryAfter, err.message, err);
+        }
+        if (err.status === 401 || err.status === 403 || /API_KEY_INVALID|API key not valid/i.test(err.message)) {
+            return new InvalidApiKeyError('The Gemini API key was rejected. Check that it is correct and enabled for this model.', err.message, err);
+        }
+        if (err.status >= 500) {
+            return new NetworkError(`The Gemini service is temporarily unavailable (HTTP ${err.status}).`, err.message, err);
+        }
+        return err;
+    }
+    // fetch() rejects with a TypeError when the request never reaches the server.
+    if (err instanceof TypeError) {
+        return new NetworkError('Could not reach the Gemini service. Check your internet connection.', undefined, err);
+    }
+    return err;
+};
+
+const generateImage = async (request: ImageGenerationRequest): Promise<string> => {
+    const imageFiles = [...request.images, ...(request.mask ? [request.mask] : []), ...(request.references ?? [])];
+    const imageParts = await Promise.all(imageFiles.map(file => fileToPart(file)));
+    throwIfCancelled(request.signal);
+    const textPart = { text: request.prompt };
+    const parts = request.promptFirst ? [textPart, ...imageParts] : [...imageParts, textPart];
+
+    const aiClient = getAiClient();
+    let response: GenerateContentResponse;
+    try {
+        response = await aiClient.models.generateContent({
+            model: GEMINI_IMAGE_MODEL,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: request.signal,
+            },
+        });
+    } catch (err) {
+        throw toGenerationError(err, request.signal);
+    }
+    // The client cannot always stop a request that is already answered; drop the late result.
+    throwIfCancelled(request.signal);
+    annotateModelCall(request, {
+        finishReason: response.candidates?.[0]?.finishReason,
+        promptFeedback: response.promptFeedback,
+        textParts: response.candidates?.[0]?.content?.parts?.flatMap(part => part.text ? [part.text] : []) ?? [],
+    });
+
+    return handleApiResponse(response, request.operation);
+};
+
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    model: GEMINI_IMAGE_MODEL,
+    generateImage,
+};
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageGenerationRequest, ImageProvider } from '../imageProvider';
+import { throwIfCancelled } from '../errors';
+
+// The mock provider never talks to a model. It renders a deterministic, canvas-based
+// approximation of each operation so the editor can be developed and exercised offline:
+// the same inputs always produce the same pixels.
+
+// FNV-1a, used to derive stable colours and filter choices from prompt text.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const colorFromText = (value: string, alpha = 1): string => `hsla(${hashString(value) % 360}, 70%, 50%, ${alpha})`;
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not create a 2D canvas context.");
+    return { canvas, ctx };
+};
+
+const FILTER_PRESETS = [
+    'sepia(0.8) contrast(1.1)',
+    'grayscale(1) contrast(1.2)',
+    'hue-rotate(180deg) saturate(1.4)',
+    'saturate(2) contrast(1.3)',
+    'invert(0.1) hue-rotate(300deg) saturate(1.6)',
+    'contrast(1.5) brightness(0.9)',
+];
+
+const ADJUSTMENT_KEYWORDS: { pattern: RegExp; filter: string }[] = [
+    { pattern: /blur/i, filter: 'blur(3px)' },
+    { pattern: /warm|golden/i, filter: 'sepia(0.35) saturate(1.3) brightness(1.05)' },
+    { pattern: /sharp|detail/i, filter: 'contrast(1.25) saturate(1.1)' },
+    { pattern: /light|bright/i, filter: 'brightness(1.2) contrast(1.1)' },
+];
+
+const applyCssFilter = (source: ImageBitmap, filter: string): HTMLCanvasElement => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.filter = filter;
+    ctx.drawImage(source, 0, 0);
+    return canvas;
+};
+
+// Paints a colour over the white area of a mask; luminance becomes alpha so feathering carries over.
+const fillMaskArea = (ctx: CanvasRenderingContext2D, mask: ImageBitmap, color: string) => {
+    const { width, height } = ctx.canvas;
+    const { canvas: tint, ctx: tintCtx } = createCanvas(width, height);
+    tintCtx.drawImage(mask, 0, 0, width, height);
+    const maskPixels = tintCtx.getImageData(0, 0, width, height);
+    for (let i = 0; i < maskPixels.data.length; i += 4) {
+        maskPixels.data[i + 3] = maskPixels.data[i];
+    }
+    tintCtx.putImageData(maskPixels, 0, 0);
+    tintCtx.globalCompositeOperation = 'source-in';
+    tintCtx.fillStyle = color;
+    tintCtx.fillRect(0, 0, width, height);
+    ctx.drawImage(tint, 0, 0);
+};
+
+const renderEdit = (source: ImageBitmap, request: ImageGenerationRequest, mask: ImageBitmap | null): HTMLCanvasElement => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+    if (mask) fillMaskArea(ctx, mask, colorFromText(request.userPrompt, 0.55));
+    const radius = Math.max(8, Math.round(Math.min(source.width, source.height) * 0.05));
+    for (const { x, y, instruction } of request.hotspots ?? []) {
+        ctx.fillStyle = colorFromText(instruction || request.userPrompt, 0.55);
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    return canvas;
+};
+
+// Paints the replacement or product over the anchor (or the middle of the image) in a
+// colour derived from the request, or draws the first reference image there when given.
+const renderReplace = (source: ImageBitmap, request: ImageGenerationRequest, reference: ImageBitmap | null): HTMLCanvasElement => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+    const anchor = request.anchor;
+    const size = Math.round(Math.min(source.width, source.height) * 0.2);
+    const box = anchor?.type === 'box' ? anchor
+        : anchor?.type === 'point' ? { x: anchor.x - size / 2, y: anchor.y - size / 2, width: size, height: size }
+        : { x: source.width / 4, y: source.height / 4, width: source.width / 2, height: source.height / 2 };
+    if (reference) {
+        ctx.drawImage(reference, box.x, box.y, box.width, box.height);
+    } else {
+        ctx.fillStyle = colorFromText(request.userPrompt, 0.6);
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+    }
+    return canvas;
+};
+
+// Fills the marked border with a colour from the request over a blurred copy of the
+// padded image, so the seam with the pasted-back original is easy to see.
+const renderExpand = (source: ImageBitmap, request: ImageGenerationRequest, mask: ImageBitmap | null): HTMLCanvasElement => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.filter = 'blur(16px)';
+    ctx.drawImage(source, 0, 0);
+    ctx.filter = 'none';
+    if (mask) fillMaskArea(ctx, mask, colorFromText(request.userPrompt, 0.85));
+    return canvas;
+};
+
+const renderFrame = (source: ImageBitmap, request: ImageGenerationRequest): HTMLCanvasElement => {
+    const border = Math.round(Math.min(source.width, source.height) * 0.12);
+    const { canvas, ctx } = createCanvas(source.width + border * 2, source.height + border * 2);
+    ctx.fillStyle = colorFromText(request.userPrompt);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, border, border);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(border * 0.45)}px serif`;
+    const { topText = '', bottomText = '' } = request.frame ?? {};
+    if (topText) ctx.fillText(topText, canvas.width / 2, border / 2, canvas.width - border);
+    if (bottomText) ctx.fillText(bottomText, canvas.width / 2, canvas.height - border / 2, canvas.width - border);
+    return canvas;
+};
+
+const renderComposite = (sources: ImageBitmap[]): HTMLCanvasElement => {
+    const [styleSource, ...contents] = sources;
+    const { canvas, ctx } = createCanvas(styleSource.width, styleSource.height);
+    ctx.drawImage(styleSource, 0, 0);
+    const slotWidth = canvas.width / contents.length;
+    ctx.globalAlpha = 0.6;
+    contents.forEach((content, index) => {
+        const scale = Math.min(slotWidth / content.width, canvas.height / content.height);
+        const width = content.width * scale;
+        const height = content.height * scale;
+        ctx.drawImage(content, index * slotWidth + (slotWidth - width) / 2, (canvas.height - height) / 2, width, height);
+    });
+    return canvas;
+};
+
+const generateImage = async (request: ImageGenerationRequest): Promise<string> => {
+    throwIfCancelled(request.signal);
+    if (request.images.length === 0) throw new Error(`The mock provider needs at least one image for the ${request.operation}.`);
+
+    // Decoded one at a time, so a file that fails to decode leaves only open bitmaps for `finally` to close.
+    const sources: ImageBitmap[] = [];
+    let mask: ImageBitmap | null = null;
+    let reference: ImageBitmap | null = null;
+    let output: HTMLCanvasElement;
+    try {
+        for (const file of request.images) sources.push(await createImageBitmap(file));
+        if (request.mask) mask = await createImageBitmap(request.mask);
+        if (request.references?.length) reference = await createImageBitmap(request.references[0]);
+
+        switch (request.operation) {
+            case 'edit':
+                output = renderEdit(sources[0], request, mask);
+                break;
+            case 'replace':
+            case 'place':
+                output = renderReplace(sources[0], request, reference);
+                break;
+            case 'filter':
+                output = applyCssFilter(sources[0], FILTER_PRESETS[hashString(request.userPrompt) % FILTER_PRESETS.length]);
+                break;
+            case 'adjustment': {
+                const match = ADJUSTMENT_KEYWORDS.find(({ pattern }) => pattern.test(request.userPrompt));
+                output = applyCssFilter(sources[0], match?.filter ?? 'contrast(1.1) saturate(1.1)');
+                break;
+            }
+            case 'expand':
+                output = renderExpand(sources[0], request, mask);
+                break;
+            case 'frame':
+                output = renderFrame(sources[0], request);
+                break;
+            case 'composite':
+                output = renderComposite(sources);
+                break;
+        }
+    } finally {
+        sources.forEach(source => source.close());
+        mask?.close();
+        reference?.close();
+    }
+    throwIfCancelled(request.signal);
+
+    return output.toDataURL('image/png');
+};
+
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    name: 'Local Mock (offline)',
+    model: 'mock-canvas',
+    generateImage,
+};
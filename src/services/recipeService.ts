@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { applyEditOperations } from './operations';
+import { LEVELS_GAMMA_RANGE, TONE_SLIDERS } from '../utils/toneAdjust';
+import { MAX_EXPANDED_SIDE } from '../utils/canvasExpand';
+import { MAX_STRAIGHTEN_ANGLE } from '../utils/imageTransform';
+import type { EditMetadata, EditOperation, HistoryEntry } from '../types';
+
+// A recipe is the replayable part of an edit branch, saved as a JSON file.
+// Retouch steps, and replacements anchored to a spot or shown a reference
+// image, depend on inputs tied to one specific image, so they are left out
+// when a recipe is created.
+
+export interface Recipe {
+    version: 1;
+    name: string;
+    createdAt: number;
+    steps: EditOperation[];
+}
+
+/** A step of a history branch that was left out of a recipe, and why. */
+export interface SkippedStep {
+    // Position in the branch; the starting image is step 0.
+    step: number;
+    reason: string;
+}
+
+const RECIPE_VERSION = 1;
+
+const LEGACY_REPLACE_PROMPT = /^Replace the (.+) with a (.+)\.$/;
+
+// Earlier versions kept only the finished sentence of a replacement.
+const parseLegacyReplacement = (prompt: string) => {
+    const match = LEGACY_REPLACE_PROMPT.exec(prompt.trim());
+    return match ? { target: match[1], replacement: match[2] } : null;
+};
+
+const operationFromMetadata = (meta: EditMetadata): EditOperation | null => {
+    switch (meta.tool) {
+        case 'replace': {
+            if (meta.anchor || meta.reference) return null;
+            const replaced = meta.replaced ?? parseLegacyReplacement(meta.prompt);
+            return replaced ? { tool: 'replace', ...replaced } : null;
+        }
+        case 'adjust':
+            if (meta.tone) return { tool: 'tone', tone: meta.tone };
+            return meta.prompt ? { tool: meta.tool, prompt: meta.prompt } : null;
+        case 'creative':
+            return meta.prompt ? { tool: meta.tool, prompt: meta.prompt } : null;
+        case 'frame':
+            return meta.frame ? { tool: 'frame', frame: meta.frame } : null;
+        case 'expand':
+            return meta.expansion ? { tool: 'expand', expansion: meta.expansion } : null;
+        case 'crop':
+            return meta.relativeCrop ? { tool: 'crop', rect: meta.relativeCrop, ...(meta.transform && { transform: meta.transform }) } : null;
+        default:
+            return null;
+    }
+};
+
+// Why a step that `operationFromMetadata` turned down can't be replayed.
+const skipReason = (meta: EditMetadata): string => {
+    switch (meta.tool) {
+        case 'retouch':
+            return 'a retouch, tied to points or a mask on this image';
+        case 'replace':
+            if (meta.anchor) return 'a replacement anchored to a spot in this image';
+            if (meta.reference) return 'a replacement that was shown a reference image';
+            return 'a replacement saved without what it replaced';
+        case 'place':
+            return 'a product placement, tied to a spot in this image';
+        case 'composite':
+            return 'a composite of several uploaded images';
+        default:
+            return 'saved without the settings needed to replay it';
+    }
+};
+
+/**
+ * Builds a recipe from the steps of a history branch. The first entry is the
+ * starting image and is never part of the recipe; `skipped` lists the later
+ * steps that could not be turned into operations.
+ */
+export const recipeFromHistory = (entries: HistoryEntry[], name: string): { recipe: Recipe; skipped: SkippedStep[] } => {
+    const steps: EditOperation[] = [];
+    const skipped: SkippedStep[] = [];
+    entries.forEach((entry, step) => {
+        if (step === 0) return;
+        const operation = operationFromMetadata(entry.meta);
+        if (operation) steps.push(operation);
+        else skipped.push({ step, reason: skipReason(entry.meta) });
+    });
+    return { recipe: { version: RECIPE_VERSION, name, createdAt: Date.now(), steps }, skipped };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const parseOperation = (value: unknown, index: number): EditOperation => {
+    const fail = (reason: string) => new Error(`Recipe step ${index + 1} is invalid: ${reason}`);
+    if (!isObject(value)) throw fail('expected an object.');
+    switch (value.tool) {
+        case 'creative':
+        case 'adjust':
+            if (typeof value.prompt !== 'string' || !value.prompt.trim()) throw fail('missing prompt.');
+            return { tool: value.tool, prompt: value.prompt };
+        case 'replace': {
+            if (typeof value.target === 'string' && value.target.trim() && typeof value.replacement === 'string' && value.replacement.trim()) {
+                return { tool: 'replace', target: value.target, replacement: value.replacement };
+            }
+            const legacy = typeof value.prompt === 'string' ? parseLegacyReplacement(value.prompt) : null;
+            if (legacy) return { tool: 'replace', ...legacy };
+            throw fail('missing the object to replace or what to replace it with.');
+        }
+        case 'frame': {
+            const frame = value.frame;
+            if (!isObject(frame) || typeof frame.style !== 'string' || !frame.style.trim()) throw fail('missing frame style.');
+            return {
+                tool: 'frame',
+                frame: {
+                    style: frame.style,
+                    topText: typeof frame.topText === 'string' ? frame.topText : '',
+                    bottomText: typeof frame.bottomText === 'string' ? frame.bottomText : '',
+                },
+            };
+        }
+        case 'tone': {
+            const tone = value.tone;
+            if (!isObject(tone)) throw fail('missing adjustment settings.');
+            for (const { key, label, min, max } of TONE_SLIDERS) {
+                const setting = tone[key];
+                if (typeof setting !== 'number' || setting < min || setting > max) throw fail(`${label.toLowerCase()} must be a number from ${min} to ${max}.`);
+            }
+            const curve = tone.curve ?? [];
+            if (!Array.isArray(curve) || !curve.every(point => isObject(point) && isFraction(point.x) && isFraction(point.y))) {
+                throw fail('the tone curve must be a list of points with fractions for x and y.');
+            }
+            const levels = tone.levels;
+            if (levels !== undefined && (!isObject(levels) || !isFraction(levels.black) || !isFraction(levels.white) || levels.black >= levels.white
+                || typeof levels.gamma !== 'number' || levels.gamma < LEVELS_GAMMA_RANGE.min || levels.gamma > LEVELS_GAMMA_RANGE.max)) {
+                throw fail(`levels need a black point below the white point, both fractions, and a gamma from ${LEVELS_GAMMA_RANGE.min} to ${LEVELS_GAMMA_RANGE.max}.`);
+            }
+            return {
+                tool: 'tone',
+                tone: {
+                    exposure: tone.exposure as number,
+                    contrast: tone.contrast as number,
+                    temperature: tone.temperature as number,
+                    tint: tone.tint as number,
+                    saturation: tone.saturation as number,
+                    vibrance: tone.vibrance as number,
+                    curve: curve.map(point => ({ x: point.x, y: point.y })),
+                    ...(levels !== undefined && { levels: { black: levels.black as number, white: levels.white as number, gamma: levels.gamma as number } }),
+                    sharpness: tone.sharpness as number,
+                },
+            };
+        }
+        case 'expand': {
+            const expansion = value.expansion;
+            if (!isObject(expansion)) throw fail('missing expansion settings.');
+            const anchor = expansion.anchor;
+            if (!isObject(anchor) || !isFraction(anchor.x) || !isFraction(anchor.y)) throw fail('the expansion anchor must be given as fractions.');
+            const isSide = (side: unknown): side is number => Number.isInteger(side) && (side as number) > 0 && (side as number) <= MAX_EXPANDED_SIDE;
+            if (expansion.mode === 'size') {
+                if (!isSide(expansion.width) || !isSide(expansion.height)) throw fail(`the expanded size must be whole pixels from 1 to ${MAX_EXPANDED_SIDE}.`);
+                return { tool: 'expand', expansion: { mode: 'size', width: expansion.width, height: expansion.height, anchor: { x: anchor.x, y: anchor.y } } };
+            }
+            if (expansion.mode === 'aspect') {
+                if (typeof expansion.aspect !== 'number' || !(expansion.aspect > 0) || !Number.isFinite(expansion.aspect)) throw fail('the aspect ratio must be a positive number.');
+                const label = typeof expansion.label === 'string' ? expansion.label : expansion.aspect.toFixed(2);
+                return { tool: 'expand', expansion: { mode: 'aspect', aspect: expansion.aspect, label, anchor: { x: anchor.x, y: anchor.y } } };
+            }
+            throw fail('the expansion mode must be "size" or "aspect".');
+        }
+        case 'crop': {
+            const rect = value.rect;
+            if (!isObject(rect) || !isFraction(rect.x) || !isFraction(rect.y) || !isFraction(rect.width) || !isFraction(rect.height)
+                || rect.width === 0 || rect.height === 0 || rect.x + rect.width > 1.0001 || rect.y + rect.height > 1.0001) {
+                throw fail('the crop rectangle must be given as fractions of the image size.');
+            }
+            const transform = value.transform;
+            if (transform !== undefined && (!isObject(transform) || !Number.isInteger(transform.quarterTurns)
+                || typeof transform.flipHorizontal !== 'boolean' || typeof transform.flipVertical !== 'boolean'
+                || typeof transform.angle !== 'number' || Math.abs(transform.angle) > MAX_STRAIGHTEN_ANGLE)) {
+                throw fail(`the crop transform needs whole quarter turns, flip flags, and an angle of at most ${MAX_STRAIGHTEN_ANGLE}° either way.`);
+            }
+            return {
+                tool: 'crop',
+                rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+                ...(transform !== undefined && { transform: { quarterTurns: transform.quarterTurns as number, flipHorizontal: transform.flipHorizontal as boolean, flipVertical: transform.flipVertical as boolean, angle: transform.angle as number } }),
+            };
+        }
+        case 'centerCrop':
+            if (typeof value.aspect !== 'number' || !(value.aspect > 0) || !Number.isFinite(value.aspect)) throw fail('the aspect ratio must be a positive number.');
+            return { tool: 'centerCrop', aspect: value.aspect, label: typeof value.label === 'string' ? value.label : value.aspect.toFixed(2) };
+        default:
+            throw fail(`unknown tool "${String(value.tool)}".`);
+    }
+};
+
+/**
+ * Reads a single operation saved outside a recipe file, such as a session's
+ * pinned edit. Resolves to null when it is no longer valid.
+ */
+export const restoreOperation = (value: unknown): EditOperation | null => {
+    try {
+        return parseOperation(value, 0);
+    } catch {
+        return null;
+    }
+};
+
+/** Parses and validates the contents of a recipe file. */
+export const parseRecipe = (json: string): Recipe => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The recipe file is not valid JSON.');
+    }
+    if (!isObject(data) || !Array.isArray(data.steps)) throw new Error('The file does not contain an edit recipe.');
+    if (data.version !== RECIPE_VERSION) throw new Error(`Unsupported recipe version: ${String(data.version)}.`);
+    if (data.steps.length === 0) throw new Error('The recipe has no steps.');
+    return {
+        version: RECIPE_VERSION,
+        name: typeof data.name === 'string' && data.name.trim() ? data.name : 'Untitled recipe',
+        createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+        steps: data.steps.map(parseOperation),
+    };
+};
+
+export const serializeRecipe = (recipe: Recipe): string => JSON.stringify(recipe, null, 2);
+
+/** Runs every step of a recipe on an image, tagging each step with the recipe's name. */
+export const runRecipe = (
+    file: File,
+    recipe: Recipe,
+    onStep?: (entry: HistoryEntry, stepIndex: number) => void,
+    signal?: AbortSignal,
+): Promise<HistoryEntry[]> => {
+    return applyEditOperations(file, recipe.steps, (entry, index) => {
+        entry.meta.recipe = recipe.name;
+        onStep?.(entry, index);
+    }, signal);
+};
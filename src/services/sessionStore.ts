@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SESSION_STORE, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { restoreOperation } from './recipeService';
+import type { EditOperation, FrameStyle, HistoryEntry } from '../types';
+import { createLinearTree, selectHistoryNode, type HistoryNode, type HistoryTree } from '../utils/historyTree';
+import type { DiscardedVariant } from './variants';
+
+/**
+ * A saved editing session. Images are stored as `File` objects, which IndexedDB
+ * persists natively, so nothing has to be re-encoded on save or resume.
+ */
+export interface Session {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    history: HistoryTree;
+    // The operation the Batch tool applies, pinned from one of the tool panels.
+    pinnedOperation: EditOperation | null;
+    selectedNodeIds: string[];
+    // Variants the user passed over, which can still be restored into the history.
+    discardedVariants: DiscardedVariant[];
+}
+
+// Entries saved before per-step metadata existed carried only the prompt.
+type LegacyEntry<T extends HistoryEntry> = Omit<T, 'meta'> & { prompt: string };
+
+// Sessions saved before history became a tree kept a flat list and an index into it.
+interface LegacySession extends Omit<Session, 'history' | 'selectedNodeIds'> {
+    history: LegacyEntry<HistoryEntry>[];
+    historyIndex: number;
+    selectedIndices: number[];
+}
+
+// Sessions saved before any tool could be pinned only kept a pinned frame style,
+// and those saved before variants existed have no discarded tray.
+type StoredSession = (Omit<Session, 'discardedVariants'> | Omit<LegacySession, 'discardedVariants'>) & { pinnedFrameStyle?: FrameStyle | null; discardedVariants?: DiscardedVariant[] };
+
+const normalizeEntry = <T extends HistoryEntry>(entry: T | LegacyEntry<T>, createdAt: number): T => {
+    if ('meta' in entry) return entry as T;
+    const { prompt, ...rest } = entry;
+    return { ...rest, meta: { tool: 'unknown', prompt, createdAt } } as unknown as T;
+};
+
+const normalizeSession = ({ pinnedFrameStyle, ...stored }: StoredSession): Session => {
+    const session = {
+        ...stored,
+        // Validated like a recipe step, which also upgrades pins in an older shape.
+        pinnedOperation: stored.pinnedOperation ? restoreOperation(stored.pinnedOperation) : pinnedFrameStyle ? { tool: 'frame', frame: pinnedFrameStyle } : null,
+        discardedVariants: stored.discardedVariants ?? [],
+    } as Session | LegacySession;
+    if (!Array.isArray(session.history)) {
+        const tree = session.history;
+        const nodes = Object.fromEntries(Object.entries(tree.nodes).map(([id, node]) => [id, normalizeEntry<HistoryNode>(node, node.createdAt)]));
+        return { ...session as Session, history: { ...tree, nodes } };
+    }
+    const { historyIndex, selectedIndices, ...rest } = session as LegacySession;
+    const linearTree = createLinearTree(session.history.map(entry => normalizeEntry(entry, session.createdAt)));
+    const nodeIds = Object.keys(linearTree.nodes);
+    const history = nodeIds[historyIndex] ? selectHistoryNode(linearTree, nodeIds[historyIndex]) : linearTree;
+    return { ...rest, history, selectedNodeIds: selectedIndices.map(i => nodeIds[i]).filter(Boolean) };
+};
+
+export const createSessionId = (): string => crypto.randomUUID();
+
+export const listSessions = async (): Promise<Session[]> => {
+    const sessions = await getAllRecords<StoredSession>(SESSION_STORE);
+    return sessions.map(normalizeSession).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<Session | undefined> => {
+    const session = await getRecord<StoredSession>(SESSION_STORE, id);
+    return session && normalizeSession(session);
+};
+
+export const saveSession = (session: Session): Promise<void> => putRecord(SESSION_STORE, session);
+
+export const deleteSession = (id: string): Promise<void> => deleteRecord(SESSION_STORE, id);
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const session = await loadSession(id);
+    if (!session) throw new Error('That session no longer exists.');
+    await saveSession({ ...session, name, updatedAt: Date.now() });
+};
+
+export const duplicateSession = async (id: string): Promise<Session> => {
+    const session = await loadSession(id);
+    if (!session) throw new Error('That session no longer exists.');
+    const now = Date.now();
+    const copy: Session = { ...session, id: createSessionId(), name: `${session.name} (copy)`, createdAt: now, updatedAt: now };
+    await saveSession(copy);
+    return copy;
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { isCancellation } from './errors';
+import type { HistoryEntry } from '../types';
+
+// Generative edits vary a lot between runs, so a tool can ask for several
+// variants at once. The user keeps the ones they like; the rest go to a
+// discarded tray from which they can still be restored.
+
+export const MAX_VARIANTS = 4;
+
+/** A variant that was passed over, remembered with the history node it was generated from. */
+export interface DiscardedVariant extends HistoryEntry {
+    id: string;
+    parentId: string | null;
+    discardedAt: number;
+}
+
+export interface VariantSet {
+    // The history node the variants were generated from; kept variants become its children.
+    parentId: string | null;
+    entries: (HistoryEntry & { id: string })[];
+    // Variants that failed while at least one other succeeded.
+    failedCount: number;
+}
+
+/**
+ * Runs `count` generations in parallel and collects those that succeed. Only
+ * when every one fails does it reject, with the first failure, so a single
+ * refused or rate-limited call does not throw away the others.
+ */
+export const generateVariants = async (parentId: string | null, count: number, generate: (index: number) => Promise<HistoryEntry>): Promise<VariantSet> => {
+    const settled = await Promise.allSettled(Array.from({ length: count }, (_, index) => generate(index)));
+    const entries = settled.flatMap(result => result.status === 'fulfilled' ? [{ ...result.value, id: crypto.randomUUID() }] : []);
+    const failures = settled.flatMap(result => result.status === 'rejected' ? [result.reason as unknown] : []);
+    const cancellation = failures.find(isCancellation);
+    if (cancellation) throw cancellation;
+    if (entries.length === 0) throw failures[0];
+    return { parentId, entries, failedCount: failures.length };
+};
+
+export const discardVariants = (variants: VariantSet, keepIds: Set<string>): DiscardedVariant[] => {
+    const discardedAt = Date.now();
+    return variants.entries
+        .filter(entry => !keepIds.has(entry.id))
+        .map(entry => ({ ...entry, parentId: variants.parentId, discardedAt }));
+};
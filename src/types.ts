@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shared types used across the editor, its services and persisted sessions.
+
+export interface FrameStyle {
+  style: string;
+  topText: string;
+  bottomText: string;
+}
+
+export type EditTool = 'upload' | 'composite' | 'retouch' | 'replace' | 'place' | 'creative' | 'adjust' | 'crop' | 'expand' | 'frame' | 'batch' | 'unknown';
+
+/** A retouch point in image pixels, optionally with an instruction that applies only there. */
+export interface Hotspot {
+  x: number;
+  y: number;
+  instruction?: string;
+}
+
+/** A point still being placed in the retouch tool. The id keys its marker and list row while points come and go. */
+export type DraftHotspot = Hotspot & { id: string };
+
+/** Which object an edit targets, in image pixels: a box around it or a point on it. */
+export type RegionAnchor =
+  | { type: 'box'; x: number; y: number; width: number; height: number }
+  | { type: 'point'; x: number; y: number };
+
+/**
+ * Geometry the crop tool applies before cropping, in this order: quarter turns clockwise,
+ * mirroring, then a straightening angle in degrees (clockwise, at most 45 either way).
+ */
+export interface ImageTransform {
+  quarterTurns: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  angle: number;
+}
+
+/**
+ * How to extend the canvas for outpainting: to an exact size in pixels, or to the smallest
+ * canvas with a width / height ratio. `anchor` places the original within the new space, as
+ * fractions: 0 is left or top, 0.5 centered, 1 right or bottom.
+ */
+export type CanvasExpansion =
+  | { mode: 'size'; width: number; height: number; anchor: { x: number; y: number } }
+  | { mode: 'aspect'; aspect: number; label: string; anchor: { x: number; y: number } };
+
+/** Local, non-AI tone and color settings. Zero, or an empty curve, leaves the image unchanged. */
+export interface ToneAdjustments {
+  // In stops (EV).
+  exposure: number;
+  // The rest run from -100 to 100, except sharpening, which runs from 0 to 100.
+  contrast: number;
+  temperature: number;
+  tint: number;
+  saturation: number;
+  vibrance: number;
+  // Tone curve points, input and output as fractions (0–1); the ends stay at black and white unless given.
+  curve: { x: number; y: number }[];
+  // Input levels: black and white points as fractions (0–1) and a midtone gamma. Missing means unchanged.
+  levels?: { black: number; white: number; gamma: number };
+  sharpness: number;
+}
+
+/** What produced a history step, recorded so it can be inspected and exported later. */
+export interface EditMetadata {
+  tool: EditTool;
+  prompt: string;
+  createdAt: number;
+  hotspots?: Hotspot[];
+  usedMask?: boolean;
+  // Where a replacement or product placement was anchored, and the file name of the reference image it was shown.
+  anchor?: RegionAnchor;
+  reference?: string;
+  // The object a replacement targeted and what it was replaced with, as the user typed them.
+  replaced?: { target: string; replacement: string };
+  // Name of the catalog product that was placed.
+  product?: string;
+  // Crop rectangle in source image pixels, and as fractions of the source size.
+  crop?: { x: number; y: number; width: number; height: number };
+  relativeCrop?: { x: number; y: number; width: number; height: number };
+  // Rotation and mirroring applied before the crop.
+  transform?: ImageTransform;
+  // Name of the recipe that produced this step, when it was replayed.
+  recipe?: string;
+  // Which of several variants generated side by side this step is.
+  variant?: { index: number; count: number };
+  // Share (0–1) of the area outside a retouch that the model changed, the edit
+  // radius used to measure it, and whether the original pixels were put back.
+  drift?: { score: number; radius: number; restored: boolean };
+  frame?: FrameStyle;
+  // How the canvas was extended before the model filled in the new border.
+  expansion?: CanvasExpansion;
+  // Settings of a local adjustment, which needs no model.
+  tone?: ToneAdjustments;
+  model?: string;
+  durationMs?: number;
+}
+
+/** One step of the edit history: the image it produced and how it was produced. */
+export interface HistoryEntry {
+  file: File;
+  meta: EditMetadata;
+  // The painted mask a retouch was limited to, kept so its drift can be shown again later.
+  mask?: File;
+}
+
+/** A replayable edit that does not depend on a particular image. Recipes are sequences of these. */
+export type EditOperation =
+  | { tool: 'creative'; prompt: string }
+  | { tool: 'adjust'; prompt: string }
+  | { tool: 'replace'; target: string; replacement: string }
+  | { tool: 'frame'; frame: FrameStyle }
+  | { tool: 'tone'; tone: ToneAdjustments }
+  | { tool: 'expand'; expansion: CanvasExpansion }
+  // Crop rectangle as fractions (0–1) of the image size, after the optional transform.
+  | { tool: 'crop'; rect: { x: number; y: number; width: number; height: number }; transform?: ImageTransform }
+  // Largest centered crop with the given width / height ratio, so it suits images of any size.
+  | { tool: 'centerCrop'; aspect: number; label: string };
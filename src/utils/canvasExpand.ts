@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { dataURLtoFile } from './imageUtils';
+import type { CanvasExpansion } from '../types';
+
+// Outpainting in three local steps around one model call: the image is placed
+// on a larger canvas whose new border is painted a marker color, the model is
+// asked to fill only that border, and the original pixels are then pasted back
+// over its output so they come through unchanged.
+
+/** Where the original sits on the expanded canvas, in pixels. */
+export interface ExpansionLayout {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    sourceWidth: number;
+    sourceHeight: number;
+}
+
+/** Fills the empty border sent to the model. The `expand` prompt names this color. */
+export const EXPANSION_MARKER_COLOR = '#ff00ff';
+
+/** Longest side the expanded canvas may have. */
+export const MAX_EXPANDED_SIDE = 8192;
+
+/** The nine placements the Expand tool offers, row by row from the top left. */
+export const EXPANSION_ANCHORS: { x: number; y: number; label: string }[] = [
+    { x: 0, y: 0, label: 'Top left' }, { x: 0.5, y: 0, label: 'Top' }, { x: 1, y: 0, label: 'Top right' },
+    { x: 0, y: 0.5, label: 'Left' }, { x: 0.5, y: 0.5, label: 'Center' }, { x: 1, y: 0.5, label: 'Right' },
+    { x: 0, y: 1, label: 'Bottom left' }, { x: 0.5, y: 1, label: 'Bottom' }, { x: 1, y: 1, label: 'Bottom right' },
+];
+
+export const describeExpansionAnchor = (anchor: { x: number; y: number }): string =>
+    EXPANSION_ANCHORS.find(candidate => candidate.x === anchor.x && candidate.y === anchor.y)?.label
+        ?? `${Math.round(anchor.x * 100)}% across, ${Math.round(anchor.y * 100)}% down`;
+
+const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Sizes the expanded canvas for an image. It is never smaller than the image:
+ * a target size below it in one direction leaves that direction as it is.
+ * Sides are not grown past `MAX_EXPANDED_SIDE`.
+ */
+export const computeExpansionLayout = (source: { width: number; height: number }, expansion: CanvasExpansion): ExpansionLayout => {
+    const [targetWidth, targetHeight] = expansion.mode === 'size'
+        ? [expansion.width, expansion.height]
+        : [source.height * expansion.aspect, source.width / expansion.aspect];
+    const width = Math.max(source.width, Math.min(MAX_EXPANDED_SIDE, Math.round(targetWidth)));
+    const height = Math.max(source.height, Math.min(MAX_EXPANDED_SIDE, Math.round(targetHeight)));
+    return {
+        width,
+        height,
+        x: Math.round((width - source.width) * clampFraction(expansion.anchor.x)),
+        y: Math.round((height - source.height) * clampFraction(expansion.anchor.y)),
+        sourceWidth: source.width,
+        sourceHeight: source.height,
+    };
+};
+
+/** How many pixels the expansion adds on each side. */
+export const expansionMargins = (layout: ExpansionLayout) => ({
+    left: layout.x,
+    top: layout.y,
+    right: layout.width - layout.sourceWidth - layout.x,
+    bottom: layout.height - layout.sourceHeight - layout.y,
+});
+
+/** Short label for an expansion, used as the history step's prompt and in listings. */
+export const describeExpansion = (expansion: CanvasExpansion): string =>
+    expansion.mode === 'size' ? `Expand to ${expansion.width} × ${expansion.height}` : `Expand to ${expansion.label}`;
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not prepare the expanded canvas.');
+    return { canvas, ctx };
+};
+
+/**
+ * Places the image on the expanded canvas with the border painted in the
+ * marker color, and builds a mask of the same size that is white where the
+ * model should generate and black over the original.
+ */
+export const padImageForExpansion = async (file: File, layout: ExpansionLayout): Promise<{ padded: File; mask: File }> => {
+    const bitmap = await createImageBitmap(file);
+    const { canvas, ctx } = createCanvas(layout.width, layout.height);
+    ctx.fillStyle = EXPANSION_MARKER_COLOR;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+    ctx.clearRect(layout.x, layout.y, layout.sourceWidth, layout.sourceHeight);
+    ctx.drawImage(bitmap, layout.x, layout.y);
+    bitmap.close();
+
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(layout.width, layout.height);
+    maskCtx.fillStyle = '#ffffff';
+    maskCtx.fillRect(0, 0, layout.width, layout.height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(layout.x, layout.y, layout.sourceWidth, layout.sourceHeight);
+
+    const stamp = Date.now();
+    return {
+        padded: dataURLtoFile(canvas.toDataURL('image/png'), `expand-canvas-${stamp}.png`),
+        mask: dataURLtoFile(maskCanvas.toDataURL('image/png'), `expand-mask-${stamp}.png`),
+    };
+};
+
+/**
+ * Scales the model's output to the expanded canvas, in case it came back at
+ * another size, and pastes the original over it pixel for pixel. Resolves to
+ * a `data:` URL like the model calls do.
+ */
+export const compositeExpansion = async (original: File, generated: string, layout: ExpansionLayout): Promise<string> => {
+    const [source, output] = await Promise.all([createImageBitmap(original), createImageBitmap(dataURLtoFile(generated, 'generated.png'))]);
+    const { canvas, ctx } = createCanvas(layout.width, layout.height);
+    ctx.drawImage(output, 0, 0, layout.width, layout.height);
+    // Cleared first so transparent parts of the original stay transparent instead of showing generated content.
+    ctx.clearRect(layout.x, layout.y, layout.sourceWidth, layout.sourceHeight);
+    ctx.drawImage(source, layout.x, layout.y);
+    source.close();
+    output.close();
+    return canvas.toDataURL('image/png');
+};
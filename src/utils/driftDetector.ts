@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { imageDataToBlob, pixelDifference, readImageData, renderDiffHeatmap } from './imageDiff';
+
+// A localized retouch should leave everything away from the edit untouched,
+// but the model often shifts colours or redraws details elsewhere. These
+// helpers measure that drift and can paste the original pixels back.
+
+/** Where a retouch was asked to change the image: clicked points, or a painted mask. */
+export interface EditArea {
+    // Points in the input image's pixels.
+    hotspots: { x: number, y: number }[];
+    // Black and white mask, white where the user painted.
+    mask?: File;
+}
+
+// A pixel counts as drifted when a colour channel moved by more than this (0–1).
+const DRIFT_THRESHOLD = 0.1;
+// The edit region is a soft shape, so it is built on a grid this size (longer
+// side) and stretched to each result, rather than worked out for every pixel.
+const REGION_GRID_SIZE = 512;
+
+/** Weights from 1 inside the edit to 0 away from it, on a grid in the input image's proportions. */
+export interface EditRegion {
+    width: number;
+    height: number;
+    weights: Float32Array;
+}
+
+/**
+ * Builds the edit region for a retouch of `input`: 1 inside the edit, falling
+ * to 0 over a feathered margin. `radius` is a fraction of the image's shorter
+ * side; around points it is the size of the edit, around a mask it is the
+ * extra margin. Build it once and pass it to each result's checks.
+ */
+export const buildEditRegion = async (input: File, area: EditArea, radius: number): Promise<EditRegion> => {
+    const inputBitmap = await createImageBitmap(input);
+    const scale = Math.min(1, REGION_GRID_SIZE / Math.max(inputBitmap.width, inputBitmap.height));
+    const width = Math.max(1, Math.round(inputBitmap.width * scale));
+    const height = Math.max(1, Math.round(inputBitmap.height * scale));
+    inputBitmap.close();
+    const radiusPx = radius * Math.min(width, height);
+    const weights = new Float32Array(width * height);
+    if (area.mask) {
+        const bitmap = await createImageBitmap(area.mask);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not read the mask.');
+        ctx.filter = `blur(${Math.max(1, radiusPx / 2)}px)`;
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        const data = ctx.getImageData(0, 0, width, height).data;
+        // Blurring both feathers the edge and grows the mask beyond what was painted.
+        for (let i = 0; i < weights.length; i++) weights[i] = Math.min(1, (data[i * 4] / 255) * 2);
+        return { width, height, weights };
+    }
+    const points = area.hotspots.map(({ x, y }) => ({ x: x * scale, y: y * scale }));
+    const feather = radiusPx / 2;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let nearest = Infinity;
+            for (const point of points) nearest = Math.min(nearest, Math.hypot(x - point.x, y - point.y));
+            weights[y * width + x] = nearest <= radiusPx ? 1 : Math.max(0, 1 - (nearest - radiusPx) / feather);
+        }
+    }
+    return { width, height, weights };
+};
+
+// Stretches the region to a result's size, interpolating between grid cells.
+const sampleRegion = (region: EditRegion, width: number, height: number): Float32Array => {
+    const weights = new Float32Array(width * height);
+    const scaleX = region.width / width;
+    const scaleY = region.height / height;
+    for (let y = 0; y < height; y++) {
+        const gy = Math.min(region.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+        const y0 = Math.floor(gy);
+        const y1 = Math.min(region.height - 1, y0 + 1);
+        const fy = gy - y0;
+        for (let x = 0; x < width; x++) {
+            const gx = Math.min(region.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+            const x0 = Math.floor(gx);
+            const x1 = Math.min(region.width - 1, x0 + 1);
+            const fx = gx - x0;
+            const top = region.weights[y0 * region.width + x0] * (1 - fx) + region.weights[y0 * region.width + x1] * fx;
+            const bottom = region.weights[y1 * region.width + x0] * (1 - fx) + region.weights[y1 * region.width + x1] * fx;
+            weights[y * width + x] = top * (1 - fy) + bottom * fy;
+        }
+    }
+    return weights;
+};
+
+const loadComparison = async (input: File, output: File, editRegion: EditRegion) => {
+    const outputBitmap = await createImageBitmap(output);
+    const { width, height } = outputBitmap;
+    outputBitmap.close();
+    const [before, after] = await Promise.all([
+        readImageData(input, width, height),
+        readImageData(output, width, height),
+    ]);
+    return { before, after, region: sampleRegion(editRegion, width, height) };
+};
+
+/** Share (0–1) of the pixels outside the edit area that the model changed noticeably. */
+export const measureDrift = async (input: File, output: File, editRegion: EditRegion): Promise<number> => {
+    const { before, after, region } = await loadComparison(input, output, editRegion);
+    const diff = pixelDifference(before, after);
+    let untouched = 0;
+    let drifted = 0;
+    for (let i = 0; i < diff.length; i++) {
+        if (region[i] > 0) continue;
+        untouched++;
+        if (diff[i] > DRIFT_THRESHOLD) drifted++;
+    }
+    return untouched > 0 ? drifted / untouched : 0;
+};
+
+/** Heatmap of the changes outside the edit area; the edit itself is left grey. */
+export const renderDriftOverlay = async (input: File, output: File, editRegion: EditRegion): Promise<Blob> => {
+    const { before, after, region } = await loadComparison(input, output, editRegion);
+    const diff = pixelDifference(before, after);
+    for (let i = 0; i < diff.length; i++) diff[i] *= 1 - region[i];
+    return imageDataToBlob(renderDiffHeatmap(diff, after));
+};
+
+/** Keeps the model's output inside the edit area and the input's pixels everywhere else. */
+export const restoreUntouchedAreas = async (input: File, output: File, editRegion: EditRegion): Promise<File> => {
+    const { before, after, region } = await loadComparison(input, output, editRegion);
+    const merged = new ImageData(after.width, after.height);
+    for (let i = 0; i < region.length; i++) {
+        const weight = region[i];
+        for (let c = 0; c < 4; c++) {
+            const p = i * 4 + c;
+            merged.data[p] = after.data[p] * weight + before.data[p] * (1 - weight);
+        }
+    }
+    const blob = await imageDataToBlob(merged);
+    return new File([blob], output.name.replace(/\.[^.]+$/, '') + '-restored.png', { type: 'image/png' });
+};
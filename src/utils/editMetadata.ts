@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getImageProvider } from '../services/imageProvider';
+import type { EditMetadata, EditTool, HistoryEntry } from '../types';
+
+// Anything that can go into a downloaded zip: history nodes carry their tree
+// position, batch results the name of the image they were made from. `original`
+// is the upload whose photo metadata the download may keep.
+export type ZipEntry = HistoryEntry & { id?: string; parentId?: string | null; source?: string; original?: File };
+
+export const createEditMetadata = (tool: EditTool, prompt: string, details: Partial<EditMetadata> = {}): EditMetadata => ({
+  tool,
+  prompt,
+  createdAt: Date.now(),
+  ...details,
+});
+
+/** Runs a model call and reports which model served it and how long it took. */
+export const withGenerationStats = async <T>(generate: () => Promise<T>): Promise<{ result: T; model: string; durationMs: number }> => {
+  const model = getImageProvider().model;
+  const startedAt = performance.now();
+  const result = await generate();
+  return { result, model, durationMs: Math.round(performance.now() - startedAt) };
+};
+
+/** Builds the `manifest.json` written next to the images in a downloaded zip. */
+export const buildZipManifest = (entries: { fileName: string; node: ZipEntry }[]): string => {
+  return JSON.stringify({
+    app: 'DreamCraft',
+    exportedAt: new Date().toISOString(),
+    images: entries.map(({ fileName, node }) => ({
+      file: fileName,
+      id: node.id,
+      parentId: node.parentId,
+      source: node.source,
+      ...node.meta,
+      createdAt: new Date(node.meta.createdAt).toISOString(),
+    })),
+  }, null, 2);
+};
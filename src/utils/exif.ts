@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Moves an EXIF block from an uploaded photo into an exported file. The block
+// is copied as raw TIFF data, with the tags that describe the upload's pixels
+// rather than the photo changed to fit the export: the browser decodes photos
+// upright, so the orientation is set back to "normal" to stop viewers from
+// turning the export a second time; the pixel dimensions are set to the
+// export's; and the embedded thumbnail, a preview of the original, is removed.
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const ORIENTATION_TAG = 0x0112;
+const EXIF_IFD_TAG = 0x8769;
+const PIXEL_X_DIMENSION_TAG = 0xa002;
+const PIXEL_Y_DIMENSION_TAG = 0xa003;
+const THUMBNAIL_OFFSET_TAG = 0x0201;
+const THUMBNAIL_LENGTH_TAG = 0x0202;
+const SHORT_TYPE = 3;
+const LONG_TYPE = 4;
+// A JPEG segment length is two bytes and counts itself.
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const startsWith = (bytes: Uint8Array, prefix: number[], offset = 0) =>
+    prefix.every((byte, index) => bytes[offset + index] === byte);
+
+const chunkType = (bytes: Uint8Array, offset: number) =>
+    String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readExifFromJpeg = (bytes: Uint8Array): Uint8Array | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: the image data follows and no more metadata segments do.
+        if (marker === 0xda) break;
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && startsWith(bytes, EXIF_HEADER, offset + 4)) {
+            return bytes.slice(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+const readExifFromPng = (bytes: Uint8Array): Uint8Array | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = chunkType(bytes, offset + 4);
+        if (type === 'eXIf') return bytes.slice(offset + 8, offset + 8 + length);
+        if (type === 'IDAT' || type === 'IEND') break;
+        offset += 12 + length;
+    }
+    return null;
+};
+
+interface Tiff {
+    bytes: Uint8Array;
+    view: DataView;
+    littleEndian: boolean;
+}
+
+// Offset of the 12-byte entry for `tag` in the IFD at `ifdOffset`, or -1.
+const findEntry = ({ bytes, view, littleEndian }: Tiff, ifdOffset: number, tag: number): number => {
+    if (ifdOffset + 2 > bytes.length) return -1;
+    const entries = view.getUint16(ifdOffset, littleEndian);
+    for (let index = 0; index < entries; index++) {
+        const entry = ifdOffset + 2 + index * 12;
+        if (entry + 12 > bytes.length) break;
+        if (view.getUint16(entry, littleEndian) === tag) return entry;
+    }
+    return -1;
+};
+
+// The value of a single SHORT or LONG entry, which is stored in the entry itself.
+const readNumber = ({ view, littleEndian }: Tiff, entry: number): number =>
+    view.getUint16(entry + 2, littleEndian) === SHORT_TYPE ? view.getUint16(entry + 8, littleEndian) : view.getUint32(entry + 8, littleEndian);
+
+/** Changes a copy of the block to describe an export of the given size, as set out at the top of this file. */
+const adaptToExport = (block: Uint8Array, size: { width: number; height: number }): Uint8Array => {
+    const bytes = block.slice();
+    const tiff: Tiff = { bytes, view: new DataView(bytes.buffer), littleEndian: bytes[0] === 0x49 };
+    const { view, littleEndian } = tiff;
+    const ifd0 = view.getUint32(4, littleEndian);
+    if (ifd0 + 2 > bytes.length) return bytes;
+
+    const orientation = findEntry(tiff, ifd0, ORIENTATION_TAG);
+    if (orientation >= 0) view.setUint16(orientation + 8, 1, littleEndian);
+
+    const exifPointer = findEntry(tiff, ifd0, EXIF_IFD_TAG);
+    if (exifPointer >= 0) {
+        const exifIfd = readNumber(tiff, exifPointer);
+        for (const [tag, value] of [[PIXEL_X_DIMENSION_TAG, size.width], [PIXEL_Y_DIMENSION_TAG, size.height]]) {
+            const entry = findEntry(tiff, exifIfd, tag);
+            if (entry < 0) continue;
+            // Either type is allowed here; a LONG holds any size.
+            view.setUint16(entry + 2, LONG_TYPE, littleEndian);
+            view.setUint32(entry + 4, 1, littleEndian);
+            view.setUint32(entry + 8, value, littleEndian);
+        }
+    }
+
+    // The thumbnail is described by IFD1, linked from the end of IFD0. Unlinking it
+    // drops the thumbnail for readers; its bytes are blanked too, as they stay in the block.
+    const nextIfdLink = ifd0 + 2 + view.getUint16(ifd0, littleEndian) * 12;
+    if (nextIfdLink + 4 > bytes.length) return bytes;
+    const ifd1 = view.getUint32(nextIfdLink, littleEndian);
+    if (ifd1 === 0) return bytes;
+    const thumbnailOffset = findEntry(tiff, ifd1, THUMBNAIL_OFFSET_TAG);
+    const thumbnailLength = findEntry(tiff, ifd1, THUMBNAIL_LENGTH_TAG);
+    if (thumbnailOffset >= 0 && thumbnailLength >= 0) {
+        const start = readNumber(tiff, thumbnailOffset);
+        bytes.fill(0, start, Math.min(bytes.length, start + readNumber(tiff, thumbnailLength)));
+    }
+    view.setUint32(nextIfdLink, 0, littleEndian);
+    return bytes;
+};
+
+/**
+ * Reads the EXIF block of a JPEG or PNG file as TIFF data. Resolves to null
+ * when the file has none.
+ */
+export const readExif = async (file: Blob): Promise<Uint8Array | null> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const tiff = bytes[0] === 0xff && bytes[1] === 0xd8
+        ? readExifFromJpeg(bytes)
+        : startsWith(bytes, PNG_SIGNATURE) ? readExifFromPng(bytes) : null;
+    // A TIFF header starts with its byte order, "II" or "MM".
+    if (!tiff || tiff.length < 8 || !(startsWith(tiff, [0x49, 0x49]) || startsWith(tiff, [0x4d, 0x4d]))) return null;
+    return tiff;
+};
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concat = (parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+// Goes after the JFIF segment the browser writes, which readers expect first.
+const insertIntoJpeg = (bytes: Uint8Array, tiff: Uint8Array) => {
+    const segmentLength = 2 + EXIF_HEADER.length + tiff.length;
+    if (segmentLength > MAX_JPEG_SEGMENT) return null;
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    const segment = concat([new Uint8Array([0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff]), new Uint8Array(EXIF_HEADER), tiff]);
+    return concat([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+// The PNG spec wants eXIf before the first image data chunk.
+const insertIntoPng = (bytes: Uint8Array, tiff: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length && chunkType(bytes, offset + 4) !== 'IDAT') {
+        offset += 12 + view.getUint32(offset);
+    }
+    if (offset + 8 > bytes.length) return null;
+    const typeAndData = concat([new Uint8Array([0x65, 0x58, 0x49, 0x66]), tiff]); // "eXIf"
+    const chunk = new Uint8Array(12 + tiff.length);
+    const chunkView = new DataView(chunk.buffer);
+    chunkView.setUint32(0, tiff.length);
+    chunk.set(typeAndData, 4);
+    chunkView.setUint32(8 + tiff.length, crc32(typeAndData));
+    return concat([bytes.subarray(0, offset), chunk, bytes.subarray(offset)]);
+};
+
+/**
+ * Writes an EXIF block, as returned by `readExif`, into a JPEG or PNG blob of
+ * the given pixel size, adapted to it. Other formats, and blocks too large for
+ * a JPEG segment, come back unchanged.
+ */
+export const writeExif = async (blob: Blob, exif: Uint8Array, size: { width: number; height: number }): Promise<Blob> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const tiff = adaptToExport(exif, size);
+    const withExif = blob.type === 'image/jpeg' ? insertIntoJpeg(bytes, tiff)
+        : blob.type === 'image/png' ? insertIntoPng(bytes, tiff)
+        : null;
+    return withExif ? new Blob([withExif], { type: blob.type }) : blob;
+};
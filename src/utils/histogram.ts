@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Tonal distribution of an image: how many pixels sit at each of the 256
+// levels of luma and of each color channel. Images are scaled down before
+// counting, which changes the counts but not the shape.
+
+export interface Histogram {
+    luma: Uint32Array;
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    pixelCount: number;
+}
+
+export interface HistogramStats {
+    // Averages on the 0–255 scale.
+    meanLuma: number;
+    meanRed: number;
+    meanGreen: number;
+    meanBlue: number;
+    // Share (0–1) of pixels crushed to pure black or blown to pure white.
+    clippedShadows: number;
+    clippedHighlights: number;
+}
+
+const HISTOGRAM_MAX_SIZE = 512;
+
+export const computeHistogram = (image: ImageData): Histogram => {
+    const luma = new Uint32Array(256);
+    const red = new Uint32Array(256);
+    const green = new Uint32Array(256);
+    const blue = new Uint32Array(256);
+    const { data } = image;
+    for (let p = 0; p < data.length; p += 4) {
+        const r = data[p], g = data[p + 1], b = data[p + 2];
+        red[r]++;
+        green[g]++;
+        blue[b]++;
+        luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+    }
+    return { luma, red, green, blue, pixelCount: data.length / 4 };
+};
+
+/** Decodes an image file at a reduced size and counts its levels. */
+export const readHistogram = async (file: File): Promise<Histogram> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, HISTOGRAM_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not read the image.');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return computeHistogram(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+const mean = (counts: Uint32Array, total: number) => counts.reduce((sum, count, level) => sum + count * level, 0) / Math.max(1, total);
+
+export const histogramStats = (histogram: Histogram): HistogramStats => {
+    const total = histogram.pixelCount;
+    return {
+        meanLuma: mean(histogram.luma, total),
+        meanRed: mean(histogram.red, total),
+        meanGreen: mean(histogram.green, total),
+        meanBlue: mean(histogram.blue, total),
+        clippedShadows: histogram.luma[0] / Math.max(1, total),
+        clippedHighlights: histogram.luma[255] / Math.max(1, total),
+    };
+};
+
+/**
+ * How one image's tones differ from another's: the change in brightness in
+ * stops, and the shift in color balance along the warm–cool and
+ * green–magenta axes, on the 0–255 scale.
+ */
+export const compareHistograms = (before: Histogram, after: Histogram) => {
+    const a = histogramStats(before);
+    const b = histogramStats(after);
+    // Stops are measured on linear light, so convert the mean luma first.
+    const toLinear = (level: number) => {
+        const value = level / 255;
+        return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    };
+    const exposureStops = Math.log2(Math.max(1e-4, toLinear(b.meanLuma)) / Math.max(1e-4, toLinear(a.meanLuma)));
+    const warmth = (b.meanRed - b.meanBlue) - (a.meanRed - a.meanBlue);
+    const magenta = ((b.meanRed + b.meanBlue) / 2 - b.meanGreen) - ((a.meanRed + a.meanBlue) / 2 - a.meanGreen);
+    return { before: a, after: b, exposureStops, warmth, magenta };
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry } from '../types';
+
+// Edit history is a tree: editing from an earlier step starts a new branch
+// instead of discarding the steps after it. The "chosen branch" is the path
+// from the root to the current node, continued downwards through each node's
+// most recently used child. Undo, redo and exports all operate on that branch.
+
+export interface HistoryNode extends HistoryEntry {
+  id: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+export interface HistoryTree {
+  nodes: Record<string, HistoryNode>;
+  rootId: string | null;
+  currentId: string | null;
+  // For each node, the child that redo follows and the branch view continues through.
+  activeChild: Record<string, string>;
+}
+
+export const emptyHistoryTree: HistoryTree = { nodes: {}, rootId: null, currentId: null, activeChild: {} };
+
+const createNode = (entry: HistoryEntry, parentId: string | null): HistoryNode => ({
+  ...entry,
+  id: crypto.randomUUID(),
+  parentId,
+  createdAt: Date.now(),
+});
+
+/** Adds an entry as a new child of `parentId` and makes it current. */
+export const addHistoryNodeAt = (tree: HistoryTree, entry: HistoryEntry, parentId: string | null): HistoryTree => {
+  const node = createNode(entry, parentId);
+  return {
+    nodes: { ...tree.nodes, [node.id]: node },
+    rootId: tree.rootId ?? node.id,
+    currentId: node.id,
+    activeChild: parentId ? { ...tree.activeChild, [parentId]: node.id } : tree.activeChild,
+  };
+};
+
+/** Adds an entry as a new child of the current node and makes it current. */
+export const addHistoryNode = (tree: HistoryTree, entry: HistoryEntry): HistoryTree => {
+  return addHistoryNodeAt(tree, entry, tree.currentId);
+};
+
+/** Builds a single-branch tree from entries in order, selecting the last one. */
+export const createLinearTree = (entries: HistoryEntry[]): HistoryTree => {
+  return entries.reduce(addHistoryNode, emptyHistoryTree);
+};
+
+export const getChildren = (tree: HistoryTree, id: string): HistoryNode[] => {
+  return Object.values(tree.nodes)
+    .filter(node => node.parentId === id)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getSiblings = (tree: HistoryTree, id: string): HistoryNode[] => {
+  const parentId = tree.nodes[id]?.parentId;
+  return parentId ? getChildren(tree, parentId) : [tree.nodes[id]].filter(Boolean);
+};
+
+/** The chosen branch, from the root down to the leaf reached through active children. */
+export const getBranch = (tree: HistoryTree): HistoryNode[] => {
+  if (!tree.currentId) return [];
+  const branch: HistoryNode[] = [];
+  for (let node: HistoryNode | undefined = tree.nodes[tree.currentId]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    branch.unshift(node);
+  }
+  for (let childId = tree.activeChild[tree.currentId]; childId && tree.nodes[childId]; childId = tree.activeChild[childId]) {
+    branch.push(tree.nodes[childId]);
+  }
+  return branch;
+};
+
+/** Makes a node current, re-pointing its ancestors so the chosen branch runs through it. */
+export const selectHistoryNode = (tree: HistoryTree, id: string): HistoryTree => {
+  if (!tree.nodes[id]) return tree;
+  const activeChild = { ...tree.activeChild };
+  for (let node = tree.nodes[id]; node.parentId; node = tree.nodes[node.parentId]) {
+    activeChild[node.parentId] = node.id;
+  }
+  return { ...tree, currentId: id, activeChild };
+};
+
+export const getCurrentNode = (tree: HistoryTree): HistoryNode | null => {
+  return tree.currentId ? tree.nodes[tree.currentId] ?? null : null;
+};
+
+export const getRootNode = (tree: HistoryTree): HistoryNode | null => {
+  return tree.rootId ? tree.nodes[tree.rootId] ?? null : null;
+};
+
+export const undoHistory = (tree: HistoryTree): HistoryTree => {
+  const parentId = getCurrentNode(tree)?.parentId;
+  return parentId ? { ...tree, currentId: parentId } : tree;
+};
+
+export const redoHistory = (tree: HistoryTree): HistoryTree => {
+  const childId = tree.currentId ? tree.activeChild[tree.currentId] : undefined;
+  return childId ? { ...tree, currentId: childId } : tree;
+};
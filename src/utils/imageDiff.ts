@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Pixel-level comparison of two images. Both are drawn at the same size first,
+// so images of different resolutions (or after a crop) can still be compared,
+// although a crop shifts content and will show up as change everywhere.
+
+/** Decodes an image file into pixels, scaled to the given size. */
+export const readImageData = async (file: File, width: number, height: number): Promise<ImageData> => {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not read the image.');
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Per-pixel difference between two equally sized images, from 0 (identical)
+ * to 1 (black versus white). Uses the largest channel difference, so a shift
+ * in a single colour channel is not averaged away.
+ */
+export const pixelDifference = (before: ImageData, after: ImageData): Float32Array => {
+    const diff = new Float32Array(before.width * before.height);
+    const a = before.data;
+    const b = after.data;
+    for (let i = 0; i < diff.length; i++) {
+        const p = i * 4;
+        diff[i] = Math.max(Math.abs(a[p] - b[p]), Math.abs(a[p + 1] - b[p + 1]), Math.abs(a[p + 2] - b[p + 2])) / 255;
+    }
+    return diff;
+};
+
+/**
+ * Renders a difference map over a dimmed greyscale copy of `base`: unchanged
+ * pixels stay grey, small changes turn yellow and large ones red.
+ */
+export const renderDiffHeatmap = (diff: Float32Array, base: ImageData): ImageData => {
+    const output = new ImageData(base.width, base.height);
+    const src = base.data;
+    const out = output.data;
+    for (let i = 0; i < diff.length; i++) {
+        const p = i * 4;
+        const grey = (src[p] * 0.299 + src[p + 1] * 0.587 + src[p + 2] * 0.114) * 0.4;
+        // Differences below a few levels are compression noise rather than edits.
+        const heat = Math.min(1, Math.max(0, (diff[i] - 0.03) / 0.3));
+        out[p] = grey + (255 - grey) * heat;
+        out[p + 1] = grey + (255 * (1 - heat) - grey) * heat;
+        out[p + 2] = grey * (1 - heat);
+        out[p + 3] = 255;
+    }
+    return output;
+};
+
+/** Builds a heatmap image of where `after` differs from `before`, at the size of `after`. */
+export const createDiffHeatmap = async (before: File, after: File): Promise<Blob> => {
+    const bitmap = await createImageBitmap(after);
+    const { width, height } = bitmap;
+    bitmap.close();
+    const [beforeData, afterData] = await Promise.all([readImageData(before, width, height), readImageData(after, width, height)]);
+    return imageDataToBlob(renderDiffHeatmap(pixelDifference(beforeData, afterData), afterData));
+};
+
+export const imageDataToBlob = async (data: ImageData): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = data.width;
+    canvas.height = data.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not draw the image.');
+    ctx.putImageData(data, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the image.');
+    return blob;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readExif, writeExif } from './exif';
+import { getExportFormat, type ExportFormat, type OutputPolicy } from '../services/outputPolicy';
+
+const supportCache = new Map<ExportFormat, boolean>();
+
+/**
+ * Whether this browser can encode the format. Canvases quietly fall back to
+ * PNG for types they can't write, which is how support is detected.
+ */
+export const isExportFormatSupported = (format: ExportFormat): boolean => {
+    const cached = supportCache.get(format);
+    if (cached !== undefined) return cached;
+    const { mimeType } = getExportFormat(format);
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+    supportCache.set(format, supported);
+    return supported;
+};
+
+/**
+ * Re-encodes an image for download in the policy's format and quality. With
+ * `keepMetadata`, the EXIF block of `metadataSource` (normally the original
+ * upload) is written into the result where the format allows it; otherwise
+ * the download carries no metadata at all. Color profiles are not copied:
+ * canvases work in sRGB, so the pixels are already converted to it.
+ */
+export const exportImageFile = async (file: File, policy: OutputPolicy, metadataSource?: File): Promise<File> => {
+    const format = getExportFormat(policy.format);
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not prepare the image for download.');
+    // JPEG has no transparency, which would otherwise come out black.
+    if (format.id === 'jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    let blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format.mimeType, format.lossy ? policy.quality : undefined));
+    if (!blob || blob.type !== format.mimeType) throw new Error(`This browser can't save ${format.label} images. Choose another format in the output settings.`);
+
+    if (policy.keepMetadata && metadataSource && format.carriesMetadata) {
+        const exif = await readExif(metadataSource);
+        if (exif) blob = await writeExif(blob, exif, { width: canvas.width, height: canvas.height });
+    }
+    return new File([blob], `${file.name.replace(/\.[^./]+$/, '')}.${format.extension}`, { type: format.mimeType });
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageTransform } from '../types';
+
+// Geometry the crop tool applies before cutting out its rectangle: quarter
+// turns, mirroring and a small straightening angle. A straightened image is
+// scaled up just enough to hide the corners the rotation would leave empty,
+// so the frame keeps its size and the crop rectangle still applies to it.
+
+export const NEUTRAL_TRANSFORM: ImageTransform = { quarterTurns: 0, flipHorizontal: false, flipVertical: false, angle: 0 };
+
+/** Straightening range in degrees, shared by the slider, auto-straighten and recipe validation. */
+export const MAX_STRAIGHTEN_ANGLE = 45;
+
+export const isNeutralTransform = (transform: ImageTransform): boolean =>
+    transform.quarterTurns % 4 === 0 && !transform.flipHorizontal && !transform.flipVertical && transform.angle === 0;
+
+export const describeTransform = (transform: ImageTransform): string => {
+    const parts: string[] = [];
+    const turns = ((transform.quarterTurns % 4) + 4) % 4;
+    if (turns) parts.push(turns === 2 ? 'Rotated 180°' : `Rotated 90° ${turns === 1 ? 'right' : 'left'}`);
+    if (transform.flipHorizontal) parts.push('Flipped horizontally');
+    if (transform.flipVertical) parts.push('Flipped vertically');
+    if (transform.angle) parts.push(`Straightened ${transform.angle > 0 ? '+' : ''}${transform.angle.toFixed(1)}°`);
+    return parts.join(', ') || 'None';
+};
+
+/** Size of the frame after the quarter turns. */
+export const transformedSize = (width: number, height: number, transform: ImageTransform) =>
+    transform.quarterTurns % 2 === 0 ? { width, height } : { width: height, height: width };
+
+/** How much a `width` × `height` frame must be scaled when rotated by `angle` degrees to still cover it. */
+export const straightenScale = (width: number, height: number, angle: number): number => {
+    const radians = Math.abs(angle) * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+};
+
+/**
+ * CSS transform that previews the mirroring and straightening on an element
+ * showing a `width` × `height` image. Quarter turns are not previewed.
+ */
+export const previewTransformStyle = (width: number, height: number, transform: ImageTransform): string =>
+    `scale(${transform.flipHorizontal ? -1 : 1}, ${transform.flipVertical ? -1 : 1}) rotate(${transform.angle}deg) scale(${straightenScale(width, height, transform.angle)})`;
+
+/**
+ * Draws `source` into `ctx` with the transform applied, filling a frame of
+ * `transformedSize`. The caller sets up the canvas and any crop offset first.
+ */
+export const drawTransformed = (ctx: CanvasRenderingContext2D, source: CanvasImageSource & { width: number; height: number }, transform: ImageTransform) => {
+    const frame = transformedSize(source.width, source.height, transform);
+    ctx.translate(frame.width / 2, frame.height / 2);
+    // Canvas transforms apply to the drawing last-to-first: straighten, turn, then mirror, as in the CSS preview.
+    ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+    ctx.rotate((transform.quarterTurns * 90 + transform.angle) * Math.PI / 180);
+    const scale = straightenScale(frame.width, frame.height, transform.angle);
+    ctx.scale(scale, scale);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+};
+
+// Only tilts up to this far are looked for; steeper edges are taken as part of the scene.
+const MAX_DETECTED_TILT = 20;
+const TILT_BINS_PER_DEGREE = 4;
+
+/**
+ * Estimates how far the scene is tilted, in degrees clockwise, from the
+ * direction of its strong edges: horizons, walls and door frames should run
+ * level or plumb, so the most common small deviation from that is the tilt.
+ * Returns null when there are too few edges to tell.
+ */
+export const detectTilt = (image: ImageData): number | null => {
+    const { width, height, data } = image;
+    const luma = new Float32Array(width * height);
+    for (let i = 0; i < luma.length; i++) luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+
+    const bins = new Float32Array(MAX_DETECTED_TILT * 2 * TILT_BINS_PER_DEGREE + 1);
+    let total = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const at = (dx: number, dy: number) => luma[(y + dy) * width + x + dx];
+            // Sobel gradient.
+            const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+            const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+            const magnitude = Math.hypot(gx, gy);
+            if (magnitude < 100) continue;
+            // The gradient is square to the edge, so a level or plumb edge has a gradient at a multiple of 90°.
+            let deviation = Math.atan2(gy, gx) * 180 / Math.PI;
+            deviation = ((deviation % 90) + 135) % 90 - 45;
+            if (Math.abs(deviation) > MAX_DETECTED_TILT) continue;
+            bins[Math.round((deviation + MAX_DETECTED_TILT) * TILT_BINS_PER_DEGREE)] += magnitude;
+            total += magnitude;
+        }
+    }
+    if (total === 0) return null;
+
+    // Smooth the histogram a little and take its peak.
+    let best = -1;
+    let bestWeight = 0;
+    for (let i = 0; i < bins.length; i++) {
+        let weight = 0;
+        for (let j = Math.max(0, i - 2); j <= Math.min(bins.length - 1, i + 2); j++) weight += bins[j] * (3 - Math.abs(i - j));
+        if (weight > bestWeight) {
+            best = i;
+            bestWeight = weight;
+        }
+    }
+    // A single stray edge is not enough evidence.
+    if (best === -1 || bestWeight < total * 0.15) return null;
+    return best / TILT_BINS_PER_DEGREE - MAX_DETECTED_TILT;
+};
+
+const STRAIGHTEN_SAMPLE_SIZE = 512;
+
+/** The straightening angle that levels the image, or null when no tilt can be found. */
+export const estimateStraightenAngle = async (file: File): Promise<number | null> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, STRAIGHTEN_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(3, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(3, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not analyze the image.');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const tilt = detectTilt(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    return tilt === null ? null : Math.round(-tilt * 10) / 10;
+};
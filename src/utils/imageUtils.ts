@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NEUTRAL_TRANSFORM, drawTransformed, isNeutralTransform, transformedSize } from './imageTransform';
+import type { ImageTransform } from '../types';
+
+// Helper to convert a data URL string to a File object
+export const dataURLtoFile = (dataurl: string, filename: string): File => {
+    const arr = dataurl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mime = mimeMatch[1];
+    const bstr = atob(arr[1]);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while(n--){
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new File([u8arr], withExtensionForType(filename, mime), {type:mime});
+};
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+};
+
+/** Gives a file name the extension that matches its MIME type, so a JPEG from the model isn't saved as `.png`. */
+export const withExtensionForType = (filename: string, mimeType: string): string => {
+    const extension = EXTENSIONS_BY_TYPE[mimeType];
+    return extension ? `${filename.replace(/\.[^./]+$/, '')}.${extension}` : filename;
+};
+
+/**
+ * Scales a generated image to the size of the image it was made from. Models
+ * often answer at their own resolution. Only a result of the same shape, give
+ * or take a rounding error, is scaled: fitting any other shape would mean
+ * cropping or padding the model's work. Resolves to the unchanged `data:` URL
+ * when the sizes already match or the shapes don't.
+ */
+export const resizeToMatch = async (generated: string, source: File): Promise<string> => {
+    const [target, output] = await Promise.all([createImageBitmap(source), createImageBitmap(dataURLtoFile(generated, 'generated'))]);
+    const { width, height } = target;
+    target.close();
+    const sameSize = output.width === width && output.height === height;
+    const sameShape = Math.abs(output.width / output.height - width / height) <= 0.01 * (width / height);
+    if (sameSize || !sameShape) {
+        output.close();
+        return generated;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not resize the result.');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(output, 0, 0, width, height);
+    output.close();
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Crops an image file at full source resolution. The rectangle is given as
+ * fractions (0–1) of the image size, so it can be replayed on other images.
+ * With a transform, the image is rotated and mirrored first and the rectangle
+ * applies to the result.
+ */
+export const cropImageFile = async (
+    file: File,
+    rect: { x: number; y: number; width: number; height: number },
+    transform: ImageTransform = NEUTRAL_TRANSFORM,
+): Promise<File> => {
+    const bitmap = await createImageBitmap(file);
+    const frame = transformedSize(bitmap.width, bitmap.height, transform);
+    const sx = Math.round(rect.x * frame.width);
+    const sy = Math.round(rect.y * frame.height);
+    const width = Math.max(1, Math.round(rect.width * frame.width));
+    const height = Math.max(1, Math.round(rect.height * frame.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not process the crop.');
+    if (isNeutralTransform(transform)) {
+        ctx.drawImage(bitmap, sx, sy, width, height, 0, 0, width, height);
+    } else {
+        ctx.translate(-sx, -sy);
+        drawTransformed(ctx, bitmap, transform);
+    }
+    bitmap.close();
+    return dataURLtoFile(canvas.toDataURL('image/png'), `cropped-${Date.now()}.png`);
+};
+
+/** Crops the largest centered region with the given width / height ratio. */
+export const cropImageFileToAspect = async (file: File, aspect: number): Promise<File> => {
+    const bitmap = await createImageBitmap(file);
+    const imageAspect = bitmap.width / bitmap.height;
+    bitmap.close();
+    const width = aspect < imageAspect ? aspect / imageAspect : 1;
+    const height = aspect < imageAspect ? 1 : imageAspect / aspect;
+    return cropImageFile(file, { x: (1 - width) / 2, y: (1 - height) / 2, width, height });
+};
+
+/**
+ * Maps a pointer position to natural image pixel coordinates for an element
+ * rendered with `object-fit: contain`. The element box may be larger than the
+ * drawn image (letterboxing), so the contained rectangle is computed first.
+ * Returns null when the pointer falls on the letterbox rather than the image.
+ */
+export const clientToImagePoint = (
+    element: HTMLElement,
+    naturalWidth: number,
+    naturalHeight: number,
+    clientX: number,
+    clientY: number,
+): { x: number, y: number } | null => {
+    const rect = element.getBoundingClientRect();
+    const scale = Math.min(rect.width / naturalWidth, rect.height / naturalHeight);
+    const drawnWidth = naturalWidth * scale;
+    const drawnHeight = naturalHeight * scale;
+    const offsetX = clientX - rect.left - (rect.width - drawnWidth) / 2;
+    const offsetY = clientY - rect.top - (rect.height - drawnHeight) / 2;
+    if (offsetX < 0 || offsetY < 0 || offsetX > drawnWidth || offsetY > drawnHeight) return null;
+    return { x: offsetX / scale, y: offsetY / scale };
+};
+
+/**
+ * Converts a painted mask canvas (any colour on transparent) into the black and
+ * white PNG the model expects: white where the user painted, black elsewhere.
+ * `feather` softens the mask edge by the given number of image pixels.
+ */
+export const exportMaskFile = async (maskCanvas: HTMLCanvasElement, feather: number): Promise<File> => {
+    const { width, height } = maskCanvas;
+
+    const whiteMask = document.createElement('canvas');
+    whiteMask.width = width;
+    whiteMask.height = height;
+    const whiteCtx = whiteMask.getContext('2d');
+    if (!whiteCtx) throw new Error('Could not process the mask.');
+    whiteCtx.drawImage(maskCanvas, 0, 0);
+    whiteCtx.globalCompositeOperation = 'source-in';
+    whiteCtx.fillStyle = '#ffffff';
+    whiteCtx.fillRect(0, 0, width, height);
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new Error('Could not process the mask.');
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    if (feather > 0) ctx.filter = `blur(${feather}px)`;
+    ctx.drawImage(whiteMask, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => output.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the mask.');
+    return new File([blob], `mask-${Date.now()}.png`, { type: 'image/png' });
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A deliberately small template language for model prompts:
+//   {{name}}              is replaced by the variable's value (empty if unset).
+//   {{#name}}…{{/name}}   keeps its contents only when the variable is non-empty.
+// Sections can be nested but not repeated; there are no loops or escapes.
+
+export type TemplateVariables = Record<string, string | undefined>;
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+export const renderTemplate = (body: string, variables: TemplateVariables): string => {
+    let output = body;
+    // Repeat until nothing changes, so sections nested inside kept sections are resolved too.
+    let previous: string;
+    do {
+        previous = output;
+        output = output.replace(SECTION_PATTERN, (_, name: string, contents: string) => variables[name]?.trim() ? contents : '');
+    } while (output !== previous);
+    return output.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '');
+};
+
+/** Every variable a template refers to, in sections or substitutions. */
+export const findTemplateVariables = (body: string): string[] => {
+    const names = new Set<string>();
+    for (const match of body.matchAll(/\{\{[#/]?(\w+)\}\}/g)) names.add(match[1]);
+    return [...names];
+};
+
+/** Sections that are opened but never closed, or closed without being opened. */
+export const findUnbalancedSections = (body: string): string[] => {
+    const open: string[] = [];
+    const problems: string[] = [];
+    for (const match of body.matchAll(/\{\{([#/])(\w+)\}\}/g)) {
+        const [, kind, name] = match;
+        if (kind === '#') {
+            open.push(name);
+        } else if (open[open.length - 1] === name) {
+            open.pop();
+        } else {
+            problems.push(name);
+        }
+    }
+    return [...problems, ...open];
+};
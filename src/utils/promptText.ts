@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// User text goes into the prompt templates inside double quotes. Sanitizing it
+// here guarantees it cannot close its quotes or start a new line, so it can't
+// pose as a guideline or policy line of the template around it.
+
+export const MAX_PROMPT_TEXT_LENGTH = 500;
+
+// Zero-width characters and bidirectional overrides, which can hide or reorder text.
+const INVISIBLE_CHARACTERS = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u206F\uFEFF]/g;
+// C0 and C1 control characters, including line breaks and tabs.
+const CONTROL_CHARACTERS = /[\u0000-\u001F\u007F-\u009F\u2028\u2029]/g;
+// Straight and typographic double quotes. Full-width ones are folded into these by NFKC.
+const DOUBLE_QUOTES = /["\u201C-\u201F\u00AB\u00BB\u2033\u2036]/g;
+
+/**
+ * Makes user text safe to put between double quotes in a prompt: double quotes
+ * become single quotes, line breaks and other control characters become spaces,
+ * invisible characters are dropped, and the result is trimmed to `maxLength`.
+ */
+export const sanitizePromptText = (text: string, maxLength = MAX_PROMPT_TEXT_LENGTH): string => {
+    const cleaned = text
+        .normalize('NFKC')
+        .replace(INVISIBLE_CHARACTERS, '')
+        .replace(CONTROL_CHARACTERS, ' ')
+        .replace(DOUBLE_QUOTES, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+    // Slice by code point so an emoji is never cut in half.
+    const characters = Array.from(cleaned);
+    return characters.length > maxLength ? characters.slice(0, maxLength).join('').trimEnd() : cleaned;
+};
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ToneAdjustments } from '../types';
+
+// Deterministic, client-side tone and color adjustments. Exposure, white
+// balance, contrast, levels and the tone curve only depend on a channel's own
+// value, so they are folded into one lookup table per channel; saturation,
+// vibrance and sharpening then run over the pixels once each.
+
+export const DEFAULT_TONE_ADJUSTMENTS: ToneAdjustments = {
+    exposure: 0,
+    contrast: 0,
+    temperature: 0,
+    tint: 0,
+    saturation: 0,
+    vibrance: 0,
+    curve: [],
+    sharpness: 0,
+};
+
+export const NEUTRAL_LEVELS: NonNullable<ToneAdjustments['levels']> = { black: 0, white: 1, gamma: 1 };
+
+/** Limits for the levels, shared by the editor and recipe validation. */
+export const LEVELS_GAMMA_RANGE = { min: 0.1, max: 10 };
+
+type ToneSliderKey = Exclude<keyof ToneAdjustments, 'curve' | 'levels'>;
+
+/** Slider ranges, in the order the panel shows them. Recipes are validated against these too. */
+export const TONE_SLIDERS: { key: ToneSliderKey; label: string; min: number; max: number; step: number }[] = [
+    { key: 'exposure', label: 'Exposure', min: -3, max: 3, step: 0.05 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+    { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+    { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, step: 1 },
+    { key: 'sharpness', label: 'Sharpening', min: 0, max: 100, step: 1 },
+];
+
+const hasLevels = (tone: ToneAdjustments) =>
+    !!tone.levels && (tone.levels.black !== 0 || tone.levels.white !== 1 || tone.levels.gamma !== 1);
+
+export const isNeutralTone = (tone: ToneAdjustments): boolean =>
+    TONE_SLIDERS.every(({ key }) => tone[key] === 0) && tone.curve.every(point => point.x === point.y) && !hasLevels(tone);
+
+const formatSigned = (value: number, digits = 0) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+/** Short summary of the non-zero settings, used as the history step's description. */
+export const describeToneAdjustments = (tone: ToneAdjustments): string => {
+    const parts = TONE_SLIDERS
+        .filter(({ key }) => tone[key] !== 0)
+        .map(({ key, label }) => key === 'exposure' ? `${label} ${formatSigned(tone.exposure, 2)} EV` : `${label} ${formatSigned(tone[key])}`);
+    if (hasLevels(tone)) parts.push('Levels');
+    if (tone.curve.some(point => point.x !== point.y)) parts.push('Tone curve');
+    return parts.join(', ') || 'No change';
+};
+
+/**
+ * Samples a smooth curve through the given points (0–1 in and out) at 256
+ * levels. The ends are pinned at (0, 0) and (1, 1) unless a point sits on
+ * them. Uses monotone cubic interpolation, so the curve never overshoots
+ * between points and a rising set of points always gives a rising curve.
+ */
+export const sampleToneCurve = (points: { x: number; y: number }[]): Float32Array => {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    if (sorted[0]?.x !== 0) sorted.unshift({ x: 0, y: 0 });
+    if (sorted[sorted.length - 1].x !== 1) sorted.push({ x: 1, y: 1 });
+    const n = sorted.length;
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) slopes.push((sorted[i + 1].y - sorted[i].y) / Math.max(1e-6, sorted[i + 1].x - sorted[i].x));
+    // Tangents per Fritsch–Carlson: zero at local extrema, harmonic mean elsewhere.
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        const [before, after] = [slopes[i - 1], slopes[i]];
+        return before * after <= 0 ? 0 : (2 * before * after) / (before + after);
+    });
+    const samples = new Float32Array(256);
+    let segment = 0;
+    for (let level = 0; level < 256; level++) {
+        const x = level / 255;
+        while (segment < n - 2 && x > sorted[segment + 1].x) segment++;
+        const start = sorted[segment];
+        const end = sorted[segment + 1];
+        const width = Math.max(1e-6, end.x - start.x);
+        const t = Math.min(1, Math.max(0, (x - start.x) / width));
+        const t2 = t * t;
+        const t3 = t2 * t;
+        const y = (2 * t3 - 3 * t2 + 1) * start.y + (t3 - 2 * t2 + t) * width * tangents[segment]
+            + (-2 * t3 + 3 * t2) * end.y + (t3 - t2) * width * tangents[segment + 1];
+        samples[level] = Math.min(1, Math.max(0, y));
+    }
+    return samples;
+};
+
+const srgbToLinear = (value: number) => value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+const linearToSrgb = (value: number) => value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+
+// One 256-entry table per color channel for everything that maps a channel value to a new value.
+const buildChannelTables = (tone: ToneAdjustments): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] => {
+    const exposureGain = Math.pow(2, tone.exposure);
+    // Warmer raises red and lowers blue; a positive tint lowers green towards magenta.
+    const gains = [1 + 0.2 * (tone.temperature / 100), 1 - 0.2 * (tone.tint / 100), 1 - 0.2 * (tone.temperature / 100)];
+    const contrast = tone.contrast >= 0 ? 1 + tone.contrast / 50 : 1 + tone.contrast / 100;
+    const { black, white, gamma } = tone.levels ?? NEUTRAL_LEVELS;
+    const curve = sampleToneCurve(tone.curve);
+    return gains.map(gain => {
+        const table = new Uint8ClampedArray(256);
+        for (let level = 0; level < 256; level++) {
+            // Exposure and white balance scale light, so they are applied to linear values.
+            let value = linearToSrgb(Math.min(1, srgbToLinear(level / 255) * exposureGain * gain));
+            value = Math.min(1, Math.max(0, (value - 0.5) * contrast + 0.5));
+            value = Math.pow(Math.min(1, Math.max(0, (value - black) / Math.max(1e-3, white - black))), 1 / gamma);
+            table[level] = Math.round(curve[Math.round(value * 255)] * 255);
+        }
+        return table;
+    }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+};
+
+// Saturation scales every color's distance from grey; vibrance does the same
+// but mostly for colors that are still muted, which protects skin and skies.
+const applySaturation = (data: Uint8ClampedArray, saturation: number, vibrance: number) => {
+    const saturationFactor = 1 + saturation / 100;
+    const vibranceAmount = vibrance / 100;
+    for (let p = 0; p < data.length; p += 4) {
+        const r = data[p], g = data[p + 1], b = data[p + 2];
+        const max = Math.max(r, g, b);
+        const currentSaturation = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+        const factor = saturationFactor * (1 + vibranceAmount * (1 - currentSaturation));
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        data[p] = luma + (r - luma) * factor;
+        data[p + 1] = luma + (g - luma) * factor;
+        data[p + 2] = luma + (b - luma) * factor;
+    }
+};
+
+// Unsharp mask with a 3×3 box blur: each pixel moves away from its neighborhood average.
+const applySharpening = (image: ImageData, sharpness: number) => {
+    const { width, height, data } = image;
+    const amount = (sharpness / 100) * 1.5;
+    const source = new Uint8ClampedArray(data);
+    // Horizontal sums of three pixels, then vertical sums of those.
+    const rowSums = new Uint16Array(data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = (y * width + x) * 4;
+            const left = x > 0 ? p - 4 : p;
+            const right = x < width - 1 ? p + 4 : p;
+            for (let c = 0; c < 3; c++) rowSums[p + c] = source[left + c] + source[p + c] + source[right + c];
+        }
+    }
+    const stride = width * 4;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = (y * width + x) * 4;
+            const above = y > 0 ? p - stride : p;
+            const below = y < height - 1 ? p + stride : p;
+            for (let c = 0; c < 3; c++) {
+                const blurred = (rowSums[above + c] + rowSums[p + c] + rowSums[below + c]) / 9;
+                data[p + c] = source[p + c] + (source[p + c] - blurred) * amount;
+            }
+        }
+    }
+};
+
+/** Returns a copy of `image` with the adjustments applied. Alpha is left untouched. */
+export const applyToneAdjustments = (image: ImageData, tone: ToneAdjustments): ImageData => {
+    const output = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+    const data = output.data;
+    const [red, green, blue] = buildChannelTables(tone);
+    for (let p = 0; p < data.length; p += 4) {
+        data[p] = red[data[p]];
+        data[p + 1] = green[data[p + 1]];
+        data[p + 2] = blue[data[p + 2]];
+    }
+    if (tone.saturation !== 0 || tone.vibrance !== 0) applySaturation(data, tone.saturation, tone.vibrance);
+    if (tone.sharpness > 0) applySharpening(output, tone.sharpness);
+    return output;
+};
+
+/** Applies the adjustments to an image file at its full resolution. */
+export const applyToneToFile = async (file: File, tone: ToneAdjustments): Promise<File> => {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not apply the adjustments.');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    ctx.putImageData(applyToneAdjustments(ctx.getImageData(0, 0, canvas.width, canvas.height), tone), 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the adjusted image.');
+    return new File([blob], `adjusted-${Date.now()}.png`, { type: 'image/png' });
+};